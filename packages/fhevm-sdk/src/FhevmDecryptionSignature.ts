@@ -1,6 +1,10 @@
 import type { GenericStringStorage } from "./storage/GenericStringStorage";
 import type { EIP712Type, FhevmDecryptionSignatureType, FhevmInstance } from "./fhevmTypes";
-import { ethers } from "ethers";
+import type { FhevmTypedDataSigner } from "./core/signer";
+import { isAddress } from "./internal/rpc";
+import { hashTypedData } from "./internal/typedData";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
 function _timestampNow(): number {
   return Math.floor(Date.now() / 1000);
@@ -36,8 +40,15 @@ class FhevmDecryptionSignatureStorageKey {
   #publicKey: string | undefined;
   #key: string;
 
-  constructor(instance: FhevmInstance, contractAddresses: string[], userAddress: string, publicKey?: string) {
-    if (!ethers.isAddress(userAddress)) {
+  private constructor(contractAddresses: `0x${string}`[], userAddress: `0x${string}`, publicKey: string | undefined, key: string) {
+    this.#contractAddresses = contractAddresses;
+    this.#userAddress = userAddress;
+    this.#publicKey = publicKey;
+    this.#key = key;
+  }
+
+  static async create(instance: FhevmInstance, contractAddresses: string[], userAddress: string, publicKey?: string) {
+    if (!isAddress(userAddress)) {
       throw new TypeError(`Invalid address ${userAddress}`);
     }
 
@@ -45,22 +56,16 @@ class FhevmDecryptionSignatureStorageKey {
 
     // Unwrap any proxy wrappers (Vue, etc.) to access raw instance
     const rawInstance = unwrapProxy(instance);
-    const emptyEIP712 = (rawInstance as any).createEIP712(publicKey ?? (ethers as any).ZeroAddress, sortedContractAddresses, 0, 0);
-
-    try {
-      const hash = (ethers as any).TypedDataEncoder.hash(
-        emptyEIP712.domain,
-        { UserDecryptRequestVerification: emptyEIP712.types.UserDecryptRequestVerification },
-        emptyEIP712.message,
-      );
+    const emptyEIP712 = (rawInstance as any).createEIP712(publicKey ?? ZERO_ADDRESS, sortedContractAddresses, 0, 0);
 
-      this.#contractAddresses = sortedContractAddresses;
-      this.#userAddress = userAddress as `0x${string}`;
+    const hash = await hashTypedData(
+      emptyEIP712.domain,
+      { UserDecryptRequestVerification: emptyEIP712.types.UserDecryptRequestVerification },
+      emptyEIP712.message,
+      rawInstance,
+    );
 
-      this.#key = `${userAddress}:${hash}`;
-    } catch (e) {
-      throw e as any;
-    }
+    return new FhevmDecryptionSignatureStorageKey(sortedContractAddresses, userAddress, publicKey, `${userAddress}:${hash}`);
   }
 
   get contractAddresses(): `0x${string}`[] {
@@ -209,7 +214,7 @@ export class FhevmDecryptionSignature {
     try {
       const value = JSON.stringify(this);
 
-      const storageKey = new FhevmDecryptionSignatureStorageKey(
+      const storageKey = await FhevmDecryptionSignatureStorageKey.create(
         instance,
         this.#contractAddresses,
         this.#userAddress,
@@ -229,7 +234,7 @@ export class FhevmDecryptionSignature {
     publicKey?: string,
   ): Promise<FhevmDecryptionSignature | null> {
     try {
-      const storageKey = new FhevmDecryptionSignatureStorageKey(instance, contractAddresses, userAddress, publicKey);
+      const storageKey = await FhevmDecryptionSignatureStorageKey.create(instance, contractAddresses, userAddress, publicKey);
 
       const result = await storage.getItem(storageKey.key);
 
@@ -257,7 +262,7 @@ export class FhevmDecryptionSignature {
     contractAddresses: string[],
     publicKey: string,
     privateKey: string,
-    signer: ethers.JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
   ): Promise<FhevmDecryptionSignature | null> {
     try {
       // Unwrap any proxy wrappers (Vue, etc.) to access raw instance
@@ -266,7 +271,7 @@ export class FhevmDecryptionSignature {
       const startTimestamp = _timestampNow();
       const durationDays = 365;
       const eip712 = (rawInstance as any).createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
-      const signature = await (signer as any).signTypedData(
+      const signature = await signer.signTypedData(
         eip712.domain,
         { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
         eip712.message,
@@ -290,7 +295,7 @@ export class FhevmDecryptionSignature {
   static async loadOrSign(
     instance: FhevmInstance,
     contractAddresses: string[],
-    signer: ethers.JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
     storage: GenericStringStorage,
     keyPair?: { publicKey: string; privateKey: string },
   ): Promise<FhevmDecryptionSignature | null> {
@@ -7,9 +7,11 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { FhevmInstance } from "../../fhevmTypes";
-import type { JsonRpcSigner } from "ethers";
+import type { FhevmTypedDataSigner } from "../../core/signer";
 import { DecryptionManager, type DecryptionRequest, type DecryptionResults, type DecryptionConfig } from "../../core/decryption";
 import type { GenericStringStorage } from "../../storage/GenericStringStorage";
+import { anySignal, isFhevmAbortError } from "../../core/abort";
+import { useStaleSignal } from "./useStaleSignal";
 
 /**
  * Configuration for decryption hook
@@ -18,8 +20,8 @@ export interface UseFHEDecryptConfig {
   /** FHEVM instance */
   instance: FhevmInstance | undefined;
 
-  /** Ethers signer for EIP-712 signing */
-  signer: JsonRpcSigner | undefined;
+  /** Signer for EIP-712 signing (ethers, viem or EIP-1193 based) */
+  signer: FhevmTypedDataSigner | undefined;
 
   /** Decryption requests */
   requests?: readonly DecryptionRequest[];
@@ -149,14 +151,16 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
   // Refs for stable references
   const isDecryptingRef = useRef(isDecrypting);
   const managerRef = useRef<DecryptionManager | undefined>(undefined);
-  const chainIdRef = useRef(chainId);
   const signerRef = useRef(signer);
 
   // Update refs
   isDecryptingRef.current = isDecrypting;
-  chainIdRef.current = chainId;
   signerRef.current = signer;
 
+  // Pending calls are cancelled when the instance, chain or signer changes,
+  // or on unmount
+  const getStaleSignal = useStaleSignal([instance, chainId, signer]);
+
   // Create decryption manager
   useEffect(() => {
     if (instance) {
@@ -206,23 +210,14 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
       return;
     }
 
-    const thisChainId = chainIdRef.current;
     const thisSigner = signerRef.current;
+    const signal = getStaleSignal();
 
     setIsDecrypting(true);
     setMessage("Starting decryption...");
     setError(null);
 
     try {
-      // Check if stale (chainId or signer changed)
-      const isStale = () =>
-        thisChainId !== chainIdRef.current || thisSigner !== signerRef.current;
-
-      if (isStale()) {
-        setMessage("Request stale, skipping");
-        return;
-      }
-
       setMessage("Creating decryption signature...");
 
       const decryptionResults = await managerRef.current.decrypt(
@@ -230,17 +225,17 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
         thisSigner,
         {
           signatureStorage,
+          signal,
         }
       );
 
-      if (isStale()) {
-        setMessage("Request stale, ignoring results");
-        return;
-      }
-
       setResults(decryptionResults);
       setMessage("Decryption completed!");
     } catch (err) {
+      if (isFhevmAbortError(err)) {
+        setMessage("Request stale, ignoring results");
+        return;
+      }
       const error = err as Error;
       setError(error.message || "Decryption failed");
       setMessage("Decryption failed");
@@ -248,7 +243,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
     } finally {
       setIsDecrypting(false);
     }
-  }, [requests, signatureStorage]);
+  }, [requests, signatureStorage, getStaleSignal]);
 
   /**
    * Decrypt with custom requests
@@ -273,6 +268,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
           {
             signatureStorage,
             ...decryptConfig,
+            signal: anySignal(getStaleSignal(), decryptConfig?.signal),
           }
         );
 
@@ -287,7 +283,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
         setIsDecrypting(false);
       }
     },
-    [signer, signatureStorage]
+    [signer, signatureStorage, getStaleSignal]
   );
 
   /**
@@ -311,7 +307,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
           handle,
           contractAddress,
           signer,
-          { signatureStorage }
+          { signatureStorage, signal: getStaleSignal() }
         );
 
         setMessage("Single decryption completed!");
@@ -325,7 +321,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
         setIsDecrypting(false);
       }
     },
-    [signer, signatureStorage]
+    [signer, signatureStorage, getStaleSignal]
   );
 
   /**
@@ -342,7 +338,9 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
       setError(null);
 
       try {
-        const results = await managerRef.current.publicDecrypt(handles);
+        const results = await managerRef.current.publicDecrypt(handles, {
+          signal: getStaleSignal(),
+        });
         setMessage("Public decryption completed!");
         return results;
       } catch (err) {
@@ -354,7 +352,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
         setIsDecrypting(false);
       }
     },
-    []
+    [getStaleSignal]
   );
 
   /**
@@ -371,7 +369,9 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
       setError(null);
 
       try {
-        const result = await managerRef.current.publicDecryptSingle(handle);
+        const result = await managerRef.current.publicDecryptSingle(handle, {
+          signal: getStaleSignal(),
+        });
         setMessage("Public decryption completed!");
         return result;
       } catch (err) {
@@ -383,7 +383,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptResult
         setIsDecrypting(false);
       }
     },
-    []
+    [getStaleSignal]
   );
 
   /**
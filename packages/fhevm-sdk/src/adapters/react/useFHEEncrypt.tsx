@@ -7,10 +7,23 @@
 
 import { useCallback, useMemo } from "react";
 import type { FhevmInstance } from "../../fhevmTypes";
-import type { JsonRpcSigner } from "ethers";
+import type { FhevmTypedDataSigner } from "../../core/signer";
 import type { EncryptionResult } from "../../core/client";
-import { EncryptionBuilder, type FHEDataType, type EncryptableValue } from "../../core/encryption";
+import {
+  EncryptionBuilder,
+  withInputValidation,
+  type FHEDataType,
+  type EncryptableValue,
+} from "../../core/encryption";
 import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import {
+  anySignal,
+  isFhevmAbortError,
+  raceWithSignal,
+  throwIfAborted,
+  type FhevmOperationOptions,
+} from "../../core/abort";
+import { useStaleSignal } from "./useStaleSignal";
 
 /**
  * Builder function type for encrypted input
@@ -24,8 +37,8 @@ export interface UseFHEEncryptConfig {
   /** FHEVM instance */
   instance: FhevmInstance | undefined;
 
-  /** Ethers signer for getting user address */
-  signer: JsonRpcSigner | undefined;
+  /** Signer providing the user address (ethers, viem or EIP-1193 based) */
+  signer: FhevmTypedDataSigner | undefined;
 
   /** Target contract address */
   contractAddress: `0x${string}` | undefined;
@@ -40,8 +53,14 @@ export interface UseFHEEncryptResult {
 
   /**
    * Encrypt values using a builder function
+   *
+   * Rejects with `FhevmAbortError` when `options.signal` aborts, or when the
+   * instance, signer or contract address changes before it completes.
    */
-  encrypt: (builder: EncryptedInputBuilder) => Promise<EncryptionResult | undefined>;
+  encrypt: (
+    builder: EncryptedInputBuilder,
+    options?: FhevmOperationOptions
+  ) => Promise<EncryptionResult | undefined>;
 
   /**
    * Encrypt a single value with type specification
@@ -98,38 +117,47 @@ export function useFHEEncrypt(config: UseFHEEncryptConfig): UseFHEEncryptResult
     [instance, signer, contractAddress]
   );
 
+  const getStaleSignal = useStaleSignal([instance, signer, contractAddress]);
+
   /**
    * Main encryption function with builder pattern
    */
   const encrypt = useCallback(
-    async (builder: EncryptedInputBuilder) => {
+    async (builder: EncryptedInputBuilder, options: FhevmOperationOptions = {}) => {
       if (!instance || !signer || !contractAddress) {
         console.warn("Cannot encrypt: missing instance, signer, or contractAddress");
         return undefined;
       }
 
+      const signal = anySignal(getStaleSignal(), options.signal);
+
       try {
-        const userAddress = (await signer.getAddress()) as `0x${string}`;
+        const userAddress = (await raceWithSignal(signer.getAddress(), signal)) as `0x${string}`;
 
-        const input = instance.createEncryptedInput(
-          contractAddress,
-          userAddress
-        ) as RelayerEncryptedInput;
+        const input = withInputValidation(
+          instance.createEncryptedInput(
+            contractAddress,
+            userAddress
+          ) as RelayerEncryptedInput
+        );
 
         builder(input);
 
-        const result = await input.encrypt();
+        throwIfAborted(signal);
+        const result = await raceWithSignal(input.encrypt(), signal);
 
         return {
           handles: result.handles,
           inputProof: result.inputProof,
         };
       } catch (error) {
-        console.error("Encryption failed:", error);
+        if (!isFhevmAbortError(error)) {
+          console.error("Encryption failed:", error);
+        }
         throw error;
       }
     },
-    [instance, signer, contractAddress]
+    [instance, signer, contractAddress, getStaleSignal]
   );
 
   /**
@@ -8,6 +8,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { FHEVMClient, type FHEVMClientConfig, type FHEVMClientStatus } from "../../core/client";
 import type { FhevmInstance } from "../../fhevmTypes";
+import type { FhevmInitPhase } from "../../core/events";
 
 /**
  * Configuration for useFHEVM hook
@@ -36,6 +37,9 @@ export interface UseFHEVMResult {
   /** Whether the client is currently initializing */
   isLoading: boolean;
 
+  /** Latest initialization phase (e.g. "sdk-loading", "creating") */
+  initPhase: FhevmInitPhase | undefined;
+
   /** Last error encountered */
   error: Error | undefined;
 
@@ -59,6 +63,7 @@ export interface UseFHEVMResult {
  * - Automatic initialization on mount
  * - Automatic cleanup on unmount
  * - React to provider/chainId changes
+ * - Follow wallet `chainChanged` / `accountsChanged` events
  * - Loading and error states
  *
  * @example
@@ -79,24 +84,32 @@ export interface UseFHEVMResult {
 export function useFHEVM(config: {
   provider: any;
   chainId: number | undefined;
-  mockChains: { 31337: string };
-  enabled: boolean
+  /** RPC URLs of local mock chains; unused with `instance` */
+  mockChains?: { 31337: string };
+  enabled: boolean;
+  /** Rebuild on wallet chain/account changes (default: false) */
+  watchProvider?: boolean;
+  /** Instance to use instead of creating one (see `FHEVMClientConfig.instance`) */
+  instance?: FhevmInstance;
 }): UseFHEVMResult {
   const { enabled = true } = config;
 
   const [client, setClient] = useState<FHEVMClient | undefined>(undefined);
   const [status, setStatus] = useState<FHEVMClientStatus>("idle");
   const [error, setError] = useState<Error | undefined>(undefined);
+  const [initPhase, setInitPhase] = useState<FhevmInitPhase | undefined>(undefined);
 
   // Refs to track current state
   const clientRef = useRef<FHEVMClient | undefined>(undefined);
   const providerRef = useRef(config.provider);
   const chainIdRef = useRef(config.chainId);
+  const instanceRef = useRef(config.instance);
   const enabledRef = useRef(enabled);
 
   // Update refs
   providerRef.current = config.provider;
   chainIdRef.current = config.chainId;
+  instanceRef.current = config.instance;
   enabledRef.current = enabled;
 
   /**
@@ -119,12 +132,17 @@ export function useFHEVM(config: {
         provider: providerRef.current,
         chainId: chainIdRef.current,
         mockChains: config.mockChains,
+        watchProvider: config.watchProvider,
+        instance: instanceRef.current,
       });
 
       // Subscribe to status changes
       newClient.onStatusChange((newStatus) => {
         setStatus(newStatus);
       });
+      newClient.on("init:phase", ({ phase }) => {
+        setInitPhase(phase);
+      });
 
       // Store client
       clientRef.current = newClient;
@@ -163,7 +181,7 @@ export function useFHEVM(config: {
   }, []);
 
   /**
-   * Effect: Initialize on mount or when provider/chainId changes
+   * Effect: Initialize on mount or when provider/chainId/instance changes
    */
   useEffect(() => {
     if (!enabled) {
@@ -188,7 +206,7 @@ export function useFHEVM(config: {
         clientRef.current = undefined;
       }
     };
-  }, [enabled, config.provider, config.chainId]); // Don't include init - it's stable now
+  }, [enabled, config.provider, config.chainId, config.instance]); // Don't include init - it's stable now
 
   /**
    * Get the underlying FHEVM instance
@@ -201,6 +219,7 @@ export function useFHEVM(config: {
     status,
     isReady: status === "ready",
     isLoading: status === "initializing",
+    initPhase,
     error,
     init,
     reinit,
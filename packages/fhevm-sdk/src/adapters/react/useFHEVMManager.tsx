@@ -0,0 +1,155 @@
+/**
+ * @fileoverview React hooks for the multi-chain FHEVM client manager
+ * @module @fhevm-sdk/react
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FHEVMClientManager, type FHEVMClientManagerConfig } from "../../core/manager";
+import type { FHEVMClient, FHEVMClientStatus } from "../../core/client";
+import type { FhevmInstance } from "../../fhevmTypes";
+
+/**
+ * Return type of useFHEVMChain hook
+ */
+export interface UseFHEVMChainResult {
+  /** Client for the chain */
+  client: FHEVMClient | undefined;
+
+  /** Underlying FHEVM instance (from Zama SDK) */
+  instance: FhevmInstance | undefined;
+
+  /** Current status of the chain's client */
+  status: FHEVMClientStatus;
+
+  /** Whether the client is ready for operations */
+  isReady: boolean;
+
+  /** Whether the client is currently initializing */
+  isLoading: boolean;
+
+  /** Last error encountered */
+  error: Error | undefined;
+}
+
+/**
+ * Create a multi-chain client manager for the lifetime of the component
+ *
+ * The manager is created once; later changes to `config` are ignored.
+ * All clients are disposed on unmount. Disposal waits a tick so that a
+ * StrictMode remount keeps the same manager.
+ *
+ * @example
+ * ```tsx
+ * function Dashboard() {
+ *   const manager = useFHEVMManager({
+ *     providers: { 11155111: sepoliaRpc, 31415: devnetRpc },
+ *   });
+ *   const sepolia = useFHEVMChain(manager, 11155111);
+ *   const devnet = useFHEVMChain(manager, 31415);
+ *
+ *   if (!sepolia.isReady || !devnet.isReady) return <div>Loading...</div>;
+ *   return <Balances manager={manager} />;
+ * }
+ * ```
+ */
+export function useFHEVMManager(config: FHEVMClientManagerConfig): FHEVMClientManager {
+  const managerRef = useRef<FHEVMClientManager | undefined>(undefined);
+  const disposeTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  if (!managerRef.current) {
+    managerRef.current = new FHEVMClientManager(config);
+  }
+
+  useEffect(() => {
+    const manager = managerRef.current!;
+    // Remounted before the pending disposal ran
+    clearTimeout(disposeTimerRef.current);
+    return () => {
+      disposeTimerRef.current = setTimeout(() => manager.dispose(), 0);
+    };
+  }, []);
+
+  return managerRef.current;
+}
+
+/**
+ * Get (and lazily initialize) the client of one chain from a manager
+ *
+ * The client is kept out of the manager's idle sweep while mounted.
+ */
+export function useFHEVMChain(
+  manager: FHEVMClientManager | undefined,
+  chainId: number | undefined
+): UseFHEVMChainResult {
+  const [client, setClient] = useState<FHEVMClient | undefined>(undefined);
+  const [status, setStatus] = useState<FHEVMClientStatus>("idle");
+  const [error, setError] = useState<Error | undefined>(undefined);
+
+  useEffect(() => {
+    if (!manager || chainId === undefined) {
+      setClient(undefined);
+      setStatus("idle");
+      setError(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+    const release = manager.retain(chainId);
+
+    const attach = (chainClient: FHEVMClient) => {
+      unsubscribe?.();
+      unsubscribe = chainClient.onStatusChange((newStatus) => {
+        if (!cancelled) setStatus(newStatus);
+      });
+      setClient(chainClient);
+      setStatus(chainClient.status);
+    };
+
+    setError(undefined);
+    setStatus("initializing");
+
+    manager
+      .getClient(chainId)
+      .then((chainClient) => {
+        if (!cancelled) attach(chainClient);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setClient(undefined);
+        setError(err as Error);
+        setStatus("error");
+      });
+
+    // Detach when the client is disposed through the manager
+    const unsubscribeClients = manager.onClientsChange((chainIds) => {
+      if (cancelled) return;
+      if (!chainIds.includes(chainId)) {
+        unsubscribe?.();
+        unsubscribe = undefined;
+        setClient(undefined);
+        setStatus("idle");
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      unsubscribeClients();
+      release();
+    };
+  }, [manager, chainId]);
+
+  const instance = client?.isReady ? client.getInstance() : undefined;
+
+  return {
+    client,
+    instance,
+    status,
+    isReady: status === "ready",
+    isLoading: status === "initializing",
+    error,
+  };
+}
@@ -7,6 +7,10 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { FhevmInstance } from "../../fhevmTypes";
+import { isFhevmAbortError, raceWithSignal } from "../../core/abort";
+import { normalizeDecryptionResults } from "../../core/decryption";
+import { FheHandle } from "../../core/handle";
+import { useStaleSignal } from "./useStaleSignal";
 
 /**
  * Configuration for public decryption hook
@@ -138,6 +142,9 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
   isDecryptingRef.current = isDecrypting;
   instanceRef.current = instance;
 
+  // Pending calls are cancelled when the instance changes or on unmount
+  const getStaleSignal = useStaleSignal([instance]);
+
   /**
    * Compute handles key for change detection
    */
@@ -175,33 +182,28 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
     }
 
     const thisInstance = instanceRef.current;
+    const signal = getStaleSignal();
 
     setIsDecrypting(true);
     setMessage("Starting public decryption...");
     setError(null);
 
     try {
-      // Check if stale (instance changed)
-      const isStale = () => thisInstance !== instanceRef.current;
-
-      if (isStale()) {
-        setMessage("Request stale, skipping");
-        return;
-      }
-
       setMessage("Calling Relayer HTTP endpoint...");
 
       // Call the publicDecrypt method from the core client
-      const decryptionResults = await thisInstance.publicDecrypt([...handles]);
-
-      if (isStale()) {
-        setMessage("Request stale, ignoring results");
-        return;
-      }
+      const decryptionResults = await raceWithSignal(
+        thisInstance.publicDecrypt([...handles]).then(normalizeDecryptionResults),
+        signal
+      );
 
       setResults(decryptionResults);
       setMessage("Public decryption completed!");
     } catch (err) {
+      if (isFhevmAbortError(err)) {
+        setMessage("Request stale, ignoring results");
+        return;
+      }
       const error = err as Error;
       setError(error.message || "Public decryption failed");
       setMessage("Public decryption failed");
@@ -209,7 +211,7 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
     } finally {
       setIsDecrypting(false);
     }
-  }, [handles]);
+  }, [handles, getStaleSignal]);
 
   /**
    * Decrypt with custom handles
@@ -227,7 +229,10 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
       setError(null);
 
       try {
-        const results = await instance.publicDecrypt(customHandles);
+        const results = await raceWithSignal(
+          instance.publicDecrypt(customHandles).then(normalizeDecryptionResults),
+          getStaleSignal()
+        );
 
         setMessage("Custom public decryption completed!");
         return results;
@@ -240,7 +245,7 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
         setIsDecrypting(false);
       }
     },
-    [instance]
+    [instance, getStaleSignal]
   );
 
   /**
@@ -257,11 +262,14 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
       setError(null);
 
       try {
-        const results = await instance.publicDecrypt([handle]);
+        const results = await raceWithSignal(
+          instance.publicDecrypt([handle]).then(normalizeDecryptionResults),
+          getStaleSignal()
+        );
 
         setMessage("Single public decryption completed!");
 
-        const result = results[handle];
+        const result = results[FheHandle.key(handle)];
         if (result === undefined) {
           throw new Error(`No result found for handle ${handle}`);
         }
@@ -276,7 +284,7 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
         setIsDecrypting(false);
       }
     },
-    [instance]
+    [instance, getStaleSignal]
   );
 
   /**
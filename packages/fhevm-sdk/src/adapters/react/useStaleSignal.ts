@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Abort signal scoped to a set of hook dependencies
+ * @module @fhevm-sdk/react
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, type DependencyList } from "react";
+import { FhevmAbortError } from "../../core/abort";
+
+/**
+ * Get a signal that aborts when any of `deps` changes or the component
+ * unmounts, cancelling the operations started before
+ *
+ * @returns Getter for the signal of the current dependencies
+ */
+export function useStaleSignal(deps: DependencyList): () => AbortSignal {
+  const controllerRef = useRef<AbortController | undefined>(undefined);
+
+  if (!controllerRef.current) {
+    controllerRef.current = new AbortController();
+  }
+
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort(new FhevmAbortError("Request is stale"));
+      controllerRef.current = new AbortController();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  return useCallback(() => controllerRef.current!.signal, []);
+}
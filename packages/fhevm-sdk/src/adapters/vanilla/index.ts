@@ -34,11 +34,32 @@
 
 import { FHEVMClient, type FHEVMClientConfig } from "../../core/client";
 import type { FhevmInstance } from "../../fhevmTypes";
-import type { JsonRpcSigner } from "ethers";
-import type { EncryptedInputBuilder, EncryptionResult, EncryptionConfig, DecryptionRequest } from "../../core/client";
-import { DecryptionManager, type DecryptionResults, type DecryptionConfig } from "../../core/decryption";
-import { EncryptionBuilder, type FHEDataType, type EncryptableValue } from "../../core/encryption";
+import type { FhevmTypedDataSigner } from "../../core/signer";
+import type {
+  EncryptedInputBuilder,
+  EncryptionResult,
+  EncryptionConfig,
+  DecryptionRequest,
+  BatchEncryptionOptions,
+  BatchEncryptionResult,
+} from "../../core/client";
+import type {
+  DecryptionResults,
+  DecryptionConfig,
+  DecryptedValues,
+  TypedDecryptionRequests,
+} from "../../core/decryption";
+import {
+  EncryptionBuilder,
+  type FHEDataType,
+  type EncryptableValue,
+  type EncryptionSchema,
+  type EncryptionSchemaValues,
+  type SchemaEncryptionResult,
+  type TypedEncryptableValue,
+} from "../../core/encryption";
 import { GenericStringStorage } from "../../storage/GenericStringStorage";
+import type { FhevmOperationOptions } from "../../core/abort";
 import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
 
 /**
@@ -61,7 +82,8 @@ export interface VanillaFHEVMClient {
    */
   encrypt(
     builder: EncryptedInputBuilder,
-    config: EncryptionConfig
+    config: EncryptionConfig,
+    options?: FhevmOperationOptions
   ): Promise<EncryptionResult>;
 
   /**
@@ -70,9 +92,40 @@ export interface VanillaFHEVMClient {
   encryptValue(
     value: EncryptableValue,
     type: FHEDataType,
-    config: EncryptionConfig
+    config: EncryptionConfig,
+    options?: FhevmOperationOptions
   ): Promise<EncryptionResult>;
 
+  /**
+   * Encrypt the encrypted arguments of a contract call, driven by its ABI
+   */
+  encryptCall(
+    abi: any[],
+    functionName: string,
+    args: readonly unknown[],
+    config: EncryptionConfig,
+    options?: FhevmOperationOptions
+  ): Promise<unknown[]>;
+
+  /**
+   * Encrypt named values described by a schema
+   */
+  encryptSchema<S extends EncryptionSchema>(
+    schema: S,
+    values: EncryptionSchemaValues<S>,
+    config: EncryptionConfig,
+    options?: FhevmOperationOptions
+  ): Promise<SchemaEncryptionResult<S>>;
+
+  /**
+   * Encrypt more values than fit in one input, split into several inputs
+   */
+  encryptBatch(
+    values: readonly TypedEncryptableValue[],
+    config: EncryptionConfig,
+    options?: BatchEncryptionOptions
+  ): Promise<BatchEncryptionResult>;
+
   /**
    * Create a type-safe encryption builder
    */
@@ -84,9 +137,14 @@ export interface VanillaFHEVMClient {
   /**
    * Decrypt encrypted values (user decryption with EIP-712)
    */
+  decrypt<R extends TypedDecryptionRequests>(
+    requests: R,
+    signer: FhevmTypedDataSigner,
+    config?: DecryptionConfig
+  ): Promise<DecryptedValues<R>>;
   decrypt(
     requests: DecryptionRequest[],
-    signer: JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
     config?: DecryptionConfig
   ): Promise<DecryptionResults>;
 
@@ -96,7 +154,7 @@ export interface VanillaFHEVMClient {
   decryptSingle(
     handle: string,
     contractAddress: `0x${string}`,
-    signer: JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
     config?: DecryptionConfig
   ): Promise<string | bigint | boolean>;
 
@@ -104,21 +162,24 @@ export interface VanillaFHEVMClient {
    * Public decrypt encrypted values (no signature needed)
    */
   publicDecrypt(
-    handles: (string | Uint8Array)[]
+    handles: (string | Uint8Array)[],
+    options?: FhevmOperationOptions
   ): Promise<DecryptionResults>;
 
   /**
    * Public decrypt a single value
    */
   publicDecryptSingle(
-    handle: string | Uint8Array
+    handle: string | Uint8Array,
+    options?: FhevmOperationOptions
   ): Promise<string | bigint | boolean>;
 
   /**
    * Public decrypt multiple values from the same contract
    */
   publicDecryptBatch(
-    handles: (string | Uint8Array)[]
+    handles: (string | Uint8Array)[],
+    options?: FhevmOperationOptions
   ): Promise<DecryptionResults>;
 
   /**
@@ -160,7 +221,7 @@ export async function createFHEVMClient(
   await client.init();
 
   // Create decryption manager
-  const decryptionManager = new DecryptionManager(client.getInstance());
+  const decryptionManager = client.createDecryptionManager();
 
   // Return wrapped API
   return {
@@ -178,20 +239,49 @@ export async function createFHEVMClient(
 
     async encrypt(
       builder: EncryptedInputBuilder,
-      encryptConfig: EncryptionConfig
+      encryptConfig: EncryptionConfig,
+      options?: FhevmOperationOptions
     ): Promise<EncryptionResult> {
-      return client.encrypt(builder, encryptConfig);
+      return client.encrypt(builder, encryptConfig, options);
     },
 
     async encryptValue(
       value: EncryptableValue,
       type: FHEDataType,
-      encryptConfig: EncryptionConfig
+      encryptConfig: EncryptionConfig,
+      options?: FhevmOperationOptions
     ): Promise<EncryptionResult> {
       return client.encrypt((input) => {
         const builder = new EncryptionBuilder(input);
         builder.add(value, type);
-      }, encryptConfig);
+      }, encryptConfig, options);
+    },
+
+    async encryptCall(
+      abi: any[],
+      functionName: string,
+      args: readonly unknown[],
+      encryptConfig: EncryptionConfig,
+      options?: FhevmOperationOptions
+    ): Promise<unknown[]> {
+      return client.encryptCall(abi, functionName, args, encryptConfig, options);
+    },
+
+    async encryptSchema<S extends EncryptionSchema>(
+      schema: S,
+      values: EncryptionSchemaValues<S>,
+      encryptConfig: EncryptionConfig,
+      options?: FhevmOperationOptions
+    ): Promise<SchemaEncryptionResult<S>> {
+      return client.encryptSchema(schema, values, encryptConfig, options);
+    },
+
+    async encryptBatch(
+      values: readonly TypedEncryptableValue[],
+      encryptConfig: EncryptionConfig,
+      options?: BatchEncryptionOptions
+    ): Promise<BatchEncryptionResult> {
+      return client.encryptBatch(values, encryptConfig, options);
     },
 
     createEncryptionBuilder(
@@ -205,21 +295,22 @@ export async function createFHEVMClient(
           userAddress
         ) as RelayerEncryptedInput;
 
-      return new EncryptionBuilder(input);
+      return new EncryptionBuilder(input, {
+        retry: config.retry,
+        timeoutMs: config.timeouts?.encrypt,
+      });
     },
 
-    async decrypt(
+    decrypt: ((
       requests: DecryptionRequest[],
-      signer: JsonRpcSigner,
+      signer: FhevmTypedDataSigner,
       decryptConfig?: DecryptionConfig
-    ): Promise<DecryptionResults> {
-      return decryptionManager.decrypt(requests, signer, decryptConfig);
-    },
+    ) => decryptionManager.decrypt(requests, signer, decryptConfig)) as VanillaFHEVMClient["decrypt"],
 
     async decryptSingle(
       handle: string,
       contractAddress: `0x${string}`,
-      signer: JsonRpcSigner,
+      signer: FhevmTypedDataSigner,
       decryptConfig?: DecryptionConfig
     ): Promise<string | bigint | boolean> {
       return decryptionManager.decryptSingle(
@@ -231,21 +322,24 @@ export async function createFHEVMClient(
     },
 
     async publicDecrypt(
-      handles: (string | Uint8Array)[]
+      handles: (string | Uint8Array)[],
+      options?: FhevmOperationOptions
     ): Promise<DecryptionResults> {
-      return decryptionManager.publicDecrypt(handles);
+      return decryptionManager.publicDecrypt(handles, options);
     },
 
     async publicDecryptSingle(
-      handle: string | Uint8Array
+      handle: string | Uint8Array,
+      options?: FhevmOperationOptions
     ): Promise<string | bigint | boolean> {
-      return decryptionManager.publicDecryptSingle(handle);
+      return decryptionManager.publicDecryptSingle(handle, options);
     },
 
     async publicDecryptBatch(
-      handles: (string | Uint8Array)[]
+      handles: (string | Uint8Array)[],
+      options?: FhevmOperationOptions
     ): Promise<DecryptionResults> {
-      return decryptionManager.publicDecryptBatch(handles);
+      return decryptionManager.publicDecryptBatch(handles, options);
     },
 
     dispose(): void {
@@ -264,8 +358,18 @@ export const initFHEVM = createFHEVMClient;
 
 // Re-export core components for advanced usage
 export { FHEVMClient } from "../../core/client";
-export { DecryptionManager } from "../../core/decryption";
-export { EncryptionBuilder } from "../../core/encryption";
+export { FHEVMClientManager } from "../../core/manager";
+export { DecryptionManager, DecryptionError } from "../../core/decryption";
+export { EncryptionBuilder, EncryptionValidationError } from "../../core/encryption";
+export { FheHandle } from "../../core/handle";
+export { FhevmTimeoutError } from "../../core/retry";
+export { FhevmAbortError, isFhevmAbortError } from "../../core/abort";
+export {
+  fromEthersSigner,
+  fromEthersWallet,
+  fromViemWalletClient,
+  fromEip1193Provider,
+} from "../../core/signer";
 
 // Re-export types
 export type {
@@ -274,18 +378,35 @@ export type {
   EncryptionConfig,
   EncryptionResult,
   DecryptionRequest,
+  BatchEncryptionOptions,
+  BatchEncryptionResult,
 } from "../../core/client";
 
+export type { FHEVMClientManagerConfig } from "../../core/manager";
+
+export type { RetryPolicy, OperationTimeouts } from "../../core/retry";
+export type { FhevmOperationOptions } from "../../core/abort";
+export type { FhevmTypedDataSigner } from "../../core/signer";
+
 export type {
   FHEDataType,
   ExternalEncryptedType,
   EncryptableValue,
+  EncryptionSchema,
+  EncryptionSchemaValues,
+  SchemaEncryptionResult,
+  TypedEncryptableValue,
+  BatchHandleLocation,
 } from "../../core/encryption";
 
 export type {
   DecryptionResults,
   DecryptionConfig,
   DecryptionResult,
+  FheValue,
+  TypedDecryptionRequest,
+  TypedDecryptionRequests,
+  DecryptedValues,
 } from "../../core/decryption";
 
 export type { FhevmInstance } from "../../fhevmTypes";
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview viem adapter for FHEVM SDK
+ * @module @fhevm-sdk/viem
+ *
+ * Extends a viem `PublicClient` or `WalletClient` with FHEVM actions. The
+ * FHEVM instance is created from the client's own transport and chain, and
+ * EIP-712 is signed and signature storage keys are hashed with viem, so
+ * ethers is never loaded.
+ *
+ * @example
+ * ```typescript
+ * import { createWalletClient, custom } from 'viem';
+ * import { sepolia } from 'viem/chains';
+ * import { fhevmActions } from '@fhevm-sdk/viem';
+ *
+ * const client = createWalletClient({
+ *   account,
+ *   chain: sepolia,
+ *   transport: custom(window.ethereum),
+ * }).extend(fhevmActions);
+ *
+ * const { handles, inputProof } = await client.encryptInput({
+ *   contractAddress: '0x...',
+ *   build: (input) => input.add32(42),
+ * });
+ *
+ * const results = await client.userDecrypt({
+ *   requests: [{ handle: '0x...', contractAddress: '0x...' }],
+ * });
+ * ```
+ */
+
+import {
+  hashTypedData,
+  type Account,
+  type Address,
+  type PublicClient,
+  type TypedDataDomain,
+  type WalletClient,
+} from "viem";
+import {
+  FHEVMClient,
+  type FHEVMClientConfig,
+  type DecryptionRequest,
+  type EncryptedInputBuilder,
+  type EncryptionResult,
+} from "../../core/client";
+import type { DecryptionResults } from "../../core/decryption";
+import {
+  fromEip1193Provider,
+  fromViemWalletClient,
+  getPrimaryType,
+  type FhevmTypedDataSigner,
+} from "../../core/signer";
+import type { GenericStringStorage } from "../../storage/GenericStringStorage";
+import type { TypedDataHasher } from "../../internal/typedData";
+
+/** Hashes decryption signature storage keys with viem instead of ethers */
+const viemTypedDataHasher: TypedDataHasher = (domain, types, message) =>
+  hashTypedData({
+    domain: domain as TypedDataDomain,
+    types,
+    primaryType: getPrimaryType(types),
+    message,
+  });
+
+/**
+ * FHEVM client options of the actions; the provider and chain ID come from
+ * the viem client
+ */
+export type FhevmActionsConfig = Omit<FHEVMClientConfig, "provider" | "autoInit">;
+
+/**
+ * Parameters of `encryptInput`
+ */
+export interface EncryptInputParameters {
+  /** Contract address to encrypt for */
+  contractAddress: `0x${string}`;
+
+  /** User address performing encryption (default: the client's account) */
+  userAddress?: `0x${string}`;
+
+  /** Adds the values to encrypt */
+  build: EncryptedInputBuilder;
+
+  /** Cancels the operation */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parameters of `userDecrypt`
+ */
+export interface UserDecryptParameters {
+  /** Handles to decrypt, with the contracts that own them */
+  requests: DecryptionRequest[];
+
+  /** Account to sign with (default: the client's account, then the first address) */
+  account?: `0x${string}`;
+
+  /** Storage for caching EIP-712 signatures */
+  signatureStorage?: GenericStringStorage;
+
+  /** Cancels the operation */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parameters of `publicDecrypt`
+ */
+export interface PublicDecryptParameters {
+  /** Publicly decryptable handles */
+  handles: string[];
+
+  /** Cancels the operation */
+  signal?: AbortSignal;
+}
+
+/**
+ * Actions added to a viem client by `fhevmActions`
+ */
+export type FhevmActions = {
+  /** Encrypt values for a contract; returns the handles and input proof */
+  encryptInput(parameters: EncryptInputParameters): Promise<EncryptionResult>;
+
+  /** User-decrypt handles, signing the EIP-712 request with the client */
+  userDecrypt(parameters: UserDecryptParameters): Promise<DecryptionResults>;
+
+  /** Decrypt publicly decryptable handles; no signature needed */
+  publicDecrypt(parameters: PublicDecryptParameters): Promise<DecryptionResults>;
+
+  /** Underlying FHEVM client, initialized (e.g. to subscribe to events) */
+  getFhevmClient(): Promise<FHEVMClient>;
+};
+
+type ViemClient = PublicClient | WalletClient;
+
+type FhevmState = {
+  client: FHEVMClient;
+  ready: Promise<void>;
+  signers: Map<string, FhevmTypedDataSigner>;
+};
+
+/**
+ * Create an actions extension with FHEVM client options
+ *
+ * @example
+ * ```typescript
+ * const client = publicClient.extend(
+ *   createFhevmActions({ relayerUrl: 'https://relayer.example.com', decryptBatching: true })
+ * );
+ * ```
+ */
+export function createFhevmActions(config: FhevmActionsConfig = {}) {
+  const states = new WeakMap<ViemClient, FhevmState>();
+
+  const getProvider = (viemClient: ViemClient) => ({
+    request: (args: { method: string; params?: unknown[] }) =>
+      (viemClient as PublicClient).request(args as Parameters<PublicClient["request"]>[0]),
+  });
+
+  const getState = (viemClient: ViemClient): FhevmState => {
+    let state = states.get(viemClient);
+    if (!state) {
+      const client = new FHEVMClient({
+        ...config,
+        provider: getProvider(viemClient),
+        chainId: config.chainId ?? viemClient.chain?.id,
+        typedDataHasher: config.typedDataHasher ?? viemTypedDataHasher,
+      });
+      const ready = client.init().catch((error) => {
+        // Retry initialization on the next call
+        states.delete(viemClient);
+        throw error;
+      });
+      state = { client, ready, signers: new Map() };
+      states.set(viemClient, state);
+    }
+    return state;
+  };
+
+  const getClient = async (viemClient: ViemClient): Promise<FHEVMClient> => {
+    const state = getState(viemClient);
+    await state.ready;
+    return state.client;
+  };
+
+  const getSigner = (viemClient: ViemClient, account?: `0x${string}`) => {
+    // One signer per account, so that concurrent calls can be batched
+    const { signers } = getState(viemClient);
+    const key = account?.toLowerCase() ?? "";
+    let signer = signers.get(key);
+    if (!signer) {
+      signer =
+        "signTypedData" in viemClient
+          ? fromViemWalletClient(
+              {
+                account: viemClient.account,
+                getAddresses: () => viemClient.getAddresses(),
+                signTypedData: ({ account: signWith, domain, ...parameters }) =>
+                  viemClient.signTypedData({
+                    ...parameters,
+                    account: signWith as Account | Address,
+                    domain: domain as TypedDataDomain,
+                  }),
+              },
+              account
+            )
+          : // Public clients sign through their transport (eth_signTypedData_v4)
+            fromEip1193Provider(getProvider(viemClient), account);
+      signers.set(key, signer);
+    }
+    return signer;
+  };
+
+  return (viemClient: ViemClient): FhevmActions => ({
+    async encryptInput({ contractAddress, userAddress, build, signal }) {
+      const user = userAddress ?? viemClient.account?.address;
+      if (!user) {
+        throw new Error("encryptInput requires a userAddress when the client has no account");
+      }
+      const client = await getClient(viemClient);
+      return client.encrypt(build, { contractAddress, userAddress: user }, { signal });
+    },
+
+    async userDecrypt({ requests, account, signatureStorage, signal }) {
+      const client = await getClient(viemClient);
+      return client.decrypt(requests, getSigner(viemClient, account), signatureStorage, {
+        signal,
+      });
+    },
+
+    async publicDecrypt({ handles, signal }) {
+      const client = await getClient(viemClient);
+      return client.publicDecrypt(handles, { signal });
+    },
+
+    getFhevmClient() {
+      return getClient(viemClient);
+    },
+  });
+}
+
+/**
+ * FHEVM actions with default options
+ *
+ * @example
+ * ```typescript
+ * const client = walletClient.extend(fhevmActions);
+ * const results = await client.publicDecrypt({ handles: ['0x...'] });
+ * ```
+ */
+export const fhevmActions = createFhevmActions();
+
+// Re-export core components
+export { FHEVMClient } from "../../core/client";
+export { FhevmTimeoutError } from "../../core/retry";
+export { FhevmAbortError, isFhevmAbortError } from "../../core/abort";
+export { fromViemWalletClient } from "../../core/signer";
+
+// Re-export types
+export type {
+  FHEVMClientConfig,
+  EncryptionResult,
+  EncryptedInputBuilder,
+  DecryptionRequest,
+} from "../../core/client";
+export type { DecryptionResults } from "../../core/decryption";
+export type { FhevmTypedDataSigner } from "../../core/signer";
@@ -29,6 +29,7 @@ export * from "./useFHEVM";
 export * from "./useFHEEncrypt";
 export * from "./useFHEDecrypt";
 export * from "./usePublicDecrypt";
+export * from "./useFHEVMManager";
 
 // Re-export core types for convenience
 export type {
@@ -40,6 +41,11 @@ export type {
   DecryptionRequest,
 } from "../../core/client";
 
+export type {
+  FHEVMClientManager,
+  FHEVMClientManagerConfig,
+} from "../../core/manager";
+
 export type {
   FHEDataType,
   ExternalEncryptedType,
@@ -51,3 +57,14 @@ export type {
   DecryptionConfig,
   DecryptionResult,
 } from "../../core/decryption";
+
+export { FhevmAbortError, isFhevmAbortError } from "../../core/abort";
+export type { FhevmOperationOptions } from "../../core/abort";
+
+export {
+  fromEthersSigner,
+  fromEthersWallet,
+  fromViemWalletClient,
+  fromEip1193Provider,
+} from "../../core/signer";
+export type { FhevmTypedDataSigner } from "../../core/signer";
@@ -5,9 +5,11 @@
 
 import { ref, computed, watch, toRaw, type Ref } from "vue";
 import type { FhevmInstance } from "../../fhevmTypes";
-import type { JsonRpcSigner } from "ethers";
+import type { FhevmTypedDataSigner } from "../../core/signer";
 import { DecryptionManager, type DecryptionRequest, type DecryptionResults, type DecryptionConfig } from "../../core/decryption";
 import { GenericStringStorage } from "../../storage/GenericStringStorage";
+import { anySignal, isFhevmAbortError } from "../../core/abort";
+import { useStaleSignal } from "./useStaleSignal";
 
 /**
  * Configuration for decryption composable
@@ -16,8 +18,8 @@ export interface UseFHEDecryptConfig {
   /** FHEVM instance */
   instance: Ref<FhevmInstance | undefined>;
 
-  /** Ethers signer for EIP-712 signing */
-  signer: Ref<JsonRpcSigner | undefined>;
+  /** Signer for EIP-712 signing (ethers, viem or EIP-1193 based) */
+  signer: Ref<FhevmTypedDataSigner | undefined>;
 
   /** Decryption requests */
   requests?: Ref<readonly DecryptionRequest[] | undefined>;
@@ -126,6 +128,12 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptComposa
 
   const manager = ref<DecryptionManager | undefined>(undefined);
 
+  // Pending calls are cancelled when the instance, chain or signer changes,
+  // or on unmount
+  const getStaleSignal = useStaleSignal(
+    chainId ? [instance, signer, chainId] : [instance, signer]
+  );
+
   /**
    * Create decryption manager when instance changes
    */
@@ -173,39 +181,29 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptComposa
     // ALWAYS create fresh manager with unwrapped instance and signer
     const rawInstance = toRaw(instance.value);
     const rawSigner = toRaw(signer.value);
-    const thisChainId = chainId?.value;
+    const signal = getStaleSignal();
 
     isDecrypting.value = true;
     message.value = "Starting decryption...";
     error.value = null;
 
     try {
-      // Check if stale
-      const isStale = () =>
-        rawSigner !== toRaw(signer.value) || thisChainId !== chainId?.value;
-
-      if (isStale()) {
-        message.value = "Request stale, skipping";
-        return;
-      }
-
       message.value = "Creating decryption signature...";
 
       const freshManager = new DecryptionManager(rawInstance);
       const decryptionResults = await freshManager.decrypt(
         requests.value.map(r => ({ handle: r.handle, contractAddress: r.contractAddress })),
         rawSigner,
-        { signatureStorage }
+        { signatureStorage, signal }
       );
 
-      if (isStale()) {
-        message.value = "Request stale, ignoring results";
-        return;
-      }
-
       results.value = decryptionResults;
       message.value = "Decryption completed!";
     } catch (err) {
+      if (isFhevmAbortError(err)) {
+        message.value = "Request stale, ignoring results";
+        return;
+      }
       const errorObj = err as Error;
       error.value = errorObj.message || "Decryption failed";
       message.value = "Decryption failed";
@@ -242,6 +240,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptComposa
         {
           signatureStorage,
           ...decryptConfig,
+          signal: anySignal(getStaleSignal(), decryptConfig?.signal),
         }
       );
 
@@ -282,7 +281,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptComposa
         handle,
         contractAddress,
         rawSigner,
-        { signatureStorage }
+        { signatureStorage, signal: getStaleSignal() }
       );
 
       message.value = "Single decryption completed!";
@@ -314,7 +313,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptComposa
 
     try {
       const freshManager = new DecryptionManager(rawInstance);
-      const result = await freshManager.publicDecrypt(handles);
+      const result = await freshManager.publicDecrypt(handles, { signal: getStaleSignal() });
       message.value = "Public decryption completed!";
       return result;
     } catch (err) {
@@ -344,7 +343,7 @@ export function useFHEDecrypt(config: UseFHEDecryptConfig): UseFHEDecryptComposa
 
     try {
       const freshManager = new DecryptionManager(rawInstance);
-      const result = await freshManager.publicDecryptSingle(handle);
+      const result = await freshManager.publicDecryptSingle(handle, { signal: getStaleSignal() });
       message.value = "Public decryption completed!";
       return result;
     } catch (err) {
@@ -5,10 +5,23 @@
 
 import { computed, type Ref } from "vue";
 import type { FhevmInstance } from "../../fhevmTypes";
-import type { JsonRpcSigner } from "ethers";
+import type { FhevmTypedDataSigner } from "../../core/signer";
 import type { EncryptedInputBuilder, EncryptionResult } from "../../core/client";
-import { EncryptionBuilder, type FHEDataType, type EncryptableValue } from "../../core/encryption";
+import {
+  EncryptionBuilder,
+  withInputValidation,
+  type FHEDataType,
+  type EncryptableValue,
+} from "../../core/encryption";
 import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import {
+  anySignal,
+  isFhevmAbortError,
+  raceWithSignal,
+  throwIfAborted,
+  type FhevmOperationOptions,
+} from "../../core/abort";
+import { useStaleSignal } from "./useStaleSignal";
 
 /**
  * Configuration for encryption composable
@@ -17,8 +30,8 @@ export interface UseFHEEncryptConfig {
   /** FHEVM instance */
   instance: Ref<FhevmInstance | undefined>;
 
-  /** Ethers signer for getting user address */
-  signer: Ref<JsonRpcSigner | undefined>;
+  /** Signer providing the user address (ethers, viem or EIP-1193 based) */
+  signer: Ref<FhevmTypedDataSigner | undefined>;
 
   /** Target contract address */
   contractAddress: Ref<`0x${string}` | undefined>;
@@ -31,8 +44,15 @@ export interface UseFHEEncryptComposable {
   /** Whether encryption is ready */
   canEncrypt: Ref<boolean>;
 
-  /** Encrypt values using a builder function */
-  encrypt: (builder: EncryptedInputBuilder) => Promise<EncryptionResult | undefined>;
+  /**
+   * Encrypt values using a builder function. Rejects with `FhevmAbortError`
+   * when `options.signal` aborts, or when the instance, signer or contract
+   * address changes before it completes.
+   */
+  encrypt: (
+    builder: EncryptedInputBuilder,
+    options?: FhevmOperationOptions
+  ) => Promise<EncryptionResult | undefined>;
 
   /** Encrypt a single value with type specification */
   encryptValue: (value: EncryptableValue, type: FHEDataType) => Promise<EncryptionResult | undefined>;
@@ -90,6 +110,9 @@ export interface UseFHEEncryptComposable {
 export function useFHEEncrypt(config: UseFHEEncryptConfig): UseFHEEncryptComposable {
   const { instance, signer, contractAddress } = config;
 
+  // Pending encryptions are cancelled when their inputs change or on unmount
+  const getStaleSignal = useStaleSignal([instance, signer, contractAddress]);
+
   /**
    * Check if all requirements are met for encryption
    */
@@ -100,30 +123,40 @@ export function useFHEEncrypt(config: UseFHEEncryptConfig): UseFHEEncryptComposa
   /**
    * Main encryption function with builder pattern
    */
-  const encrypt = async (builder: EncryptedInputBuilder): Promise<EncryptionResult | undefined> => {
+  const encrypt = async (
+    builder: EncryptedInputBuilder,
+    options: FhevmOperationOptions = {}
+  ): Promise<EncryptionResult | undefined> => {
     if (!instance.value || !signer.value || !contractAddress.value) {
       console.warn("Cannot encrypt: missing instance, signer, or contractAddress");
       return undefined;
     }
 
+    const signal = anySignal(getStaleSignal(), options.signal);
+
     try {
-      const userAddress = (await signer.value.getAddress()) as `0x${string}`;
+      const userAddress = (await raceWithSignal(signer.value.getAddress(), signal)) as `0x${string}`;
 
-      const input = instance.value.createEncryptedInput(
-        contractAddress.value,
-        userAddress
-      ) as RelayerEncryptedInput;
+      const input = withInputValidation(
+        instance.value.createEncryptedInput(
+          contractAddress.value,
+          userAddress
+        ) as RelayerEncryptedInput
+      );
 
       builder(input);
 
-      const result = await input.encrypt();
+      throwIfAborted(signal);
+      const result = await raceWithSignal(input.encrypt(), signal);
 
       return {
         handles: result.handles,
         inputProof: result.inputProof,
       };
     } catch (error) {
-      console.error("Encryption failed:", error);
+      if (!isFhevmAbortError(error)) {
+        console.error("Encryption failed:", error);
+      }
       throw error;
     }
   };
@@ -3,9 +3,10 @@
  * @module @fhevm-sdk/vue
  */
 
-import { ref, computed, watch, onUnmounted, toValue, type Ref, type MaybeRefOrGetter } from "vue";
+import { ref, shallowRef, computed, watch, onUnmounted, toValue, type Ref, type MaybeRefOrGetter } from "vue";
 import { FHEVMClient, type FHEVMClientConfig, type FHEVMClientStatus } from "../../core/client";
 import type { FhevmInstance } from "../../fhevmTypes";
+import type { FhevmInitPhase } from "../../core/events";
 
 export interface UseFHEVMConfig extends Omit<FHEVMClientConfig, "autoInit"> {
   enabled?: MaybeRefOrGetter<boolean>;
@@ -17,6 +18,7 @@ export interface UseFHEVMComposable {
   status: Ref<FHEVMClientStatus>;
   isReady: Ref<boolean>;
   isLoading: Ref<boolean>;
+  initPhase: Ref<FhevmInitPhase | undefined>;
   error: Ref<Error | undefined>;
   init: () => Promise<void>;
   reinit: (config?: Partial<FHEVMClientConfig>) => Promise<void>;
@@ -26,10 +28,12 @@ export interface UseFHEVMComposable {
 export function useFHEVM(config: UseFHEVMConfig): UseFHEVMComposable {
   const { enabled = true, ...clientConfig } = config;
 
-  const client = ref<FHEVMClient | undefined>();
+  // Shallow: a reactive proxy cannot reach the client's private fields
+  const client = shallowRef<FHEVMClient | undefined>();
   const status = ref<FHEVMClientStatus>("idle");
   const error = ref<Error | undefined>();
-  const instance = ref<FhevmInstance | undefined>();
+  const instance = shallowRef<FhevmInstance | undefined>();
+  const initPhase = ref<FhevmInitPhase | undefined>();
 
   const isReady = computed(() => status.value === "ready");
   const isLoading = computed(() => status.value === "initializing");
@@ -60,6 +64,9 @@ export function useFHEVM(config: UseFHEVMConfig): UseFHEVMComposable {
         status.value = newStatus;
         instance.value = newStatus === "ready" ? newClient.getInstance() : undefined;
       });
+      newClient.on("init:phase", ({ phase }) => {
+        initPhase.value = phase;
+      });
 
       client.value = newClient;
       error.value = undefined;
@@ -123,5 +130,5 @@ export function useFHEVM(config: UseFHEVMConfig): UseFHEVMComposable {
     cleanup();
   });
 
-  return { client, instance, status, isReady, isLoading, error, init, reinit, abort };
+  return { client, instance, status, isReady, isLoading, initPhase, error, init, reinit, abort };
 }
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Vue composables for the multi-chain FHEVM client manager
+ * @module @fhevm-sdk/vue
+ */
+
+import { ref, computed, watch, onUnmounted, toValue, markRaw, type Ref, type MaybeRefOrGetter } from "vue";
+import { FHEVMClientManager, type FHEVMClientManagerConfig } from "../../core/manager";
+import type { FHEVMClient, FHEVMClientStatus } from "../../core/client";
+import type { FhevmInstance } from "../../fhevmTypes";
+
+export interface UseFHEVMChainComposable {
+  client: Ref<FHEVMClient | undefined>;
+  instance: Ref<FhevmInstance | undefined>;
+  status: Ref<FHEVMClientStatus>;
+  isReady: Ref<boolean>;
+  isLoading: Ref<boolean>;
+  error: Ref<Error | undefined>;
+}
+
+/**
+ * Create a multi-chain client manager, disposed when the component unmounts
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * const manager = useFHEVMManager({
+ *   providers: { 11155111: sepoliaRpc, 31415: devnetRpc },
+ * });
+ * const sepolia = useFHEVMChain(manager, 11155111);
+ * const devnet = useFHEVMChain(manager, 31415);
+ * </script>
+ * ```
+ */
+export function useFHEVMManager(config: FHEVMClientManagerConfig): FHEVMClientManager {
+  // markRaw: clients hold private class members that break behind Vue proxies
+  const manager = markRaw(new FHEVMClientManager(config));
+
+  onUnmounted(() => {
+    manager.dispose();
+  });
+
+  return manager;
+}
+
+/**
+ * Get (and lazily initialize) the client of one chain from a manager
+ *
+ * The client is kept out of the manager's idle sweep while mounted.
+ */
+export function useFHEVMChain(
+  manager: FHEVMClientManager,
+  chainId: MaybeRefOrGetter<number | undefined>
+): UseFHEVMChainComposable {
+  const client = ref<FHEVMClient | undefined>();
+  const status = ref<FHEVMClientStatus>("idle");
+  const error = ref<Error | undefined>();
+  const instance = ref<FhevmInstance | undefined>();
+
+  const isReady = computed(() => status.value === "ready");
+  const isLoading = computed(() => status.value === "initializing");
+
+  let detach: (() => void) | undefined;
+  let release: (() => void) | undefined;
+  let generation = 0;
+
+  const reset = () => {
+    detach?.();
+    detach = undefined;
+    client.value = undefined;
+    instance.value = undefined;
+    status.value = "idle";
+  };
+
+  const unsubscribeClients = manager.onClientsChange((chainIds) => {
+    const id = toValue(chainId);
+    if (id !== undefined && client.value && !chainIds.includes(id)) {
+      reset();
+    }
+  });
+
+  watch(
+    () => toValue(chainId),
+    async (id) => {
+      const current = ++generation;
+      reset();
+      error.value = undefined;
+      release?.();
+      release = undefined;
+
+      if (id === undefined) {
+        return;
+      }
+
+      release = manager.retain(id);
+      status.value = "initializing";
+
+      try {
+        const chainClient = markRaw(await manager.getClient(id));
+        if (current !== generation) return;
+
+        detach = chainClient.onStatusChange((newStatus) => {
+          status.value = newStatus;
+          instance.value = newStatus === "ready" ? markRaw(chainClient.getInstance()) : undefined;
+        });
+        client.value = chainClient;
+        status.value = chainClient.status;
+        instance.value = chainClient.isReady ? markRaw(chainClient.getInstance()) : undefined;
+      } catch (err) {
+        if (current !== generation) return;
+        error.value = err as Error;
+        status.value = "error";
+      }
+    },
+    { immediate: true }
+  );
+
+  onUnmounted(() => {
+    generation++;
+    detach?.();
+    release?.();
+    unsubscribeClients();
+  });
+
+  return { client, instance, status, isReady, isLoading, error };
+}
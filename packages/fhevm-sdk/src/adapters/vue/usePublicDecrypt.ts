@@ -5,6 +5,10 @@
 
 import { ref, computed, watch, toRaw, type Ref } from "vue";
 import type { FhevmInstance } from "../../fhevmTypes";
+import { isFhevmAbortError, raceWithSignal } from "../../core/abort";
+import { normalizeDecryptionResults } from "../../core/decryption";
+import { FheHandle } from "../../core/handle";
+import { useStaleSignal } from "./useStaleSignal";
 
 /**
  * Configuration for public decryption composable
@@ -112,6 +116,9 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
   const results = ref<Record<string, string | bigint | boolean>>({});
   const error = ref<string | null>(null);
 
+  // Pending calls are cancelled when the instance changes or on unmount
+  const getStaleSignal = useStaleSignal([instance]);
+
   /**
    * Check if decryption is possible
    */
@@ -150,11 +157,18 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
       message.value = "Calling Relayer HTTP endpoint...";
 
       // Call the publicDecrypt method from the core client
-      const decryptionResults = await rawInstance.publicDecrypt(handlesToDecrypt);
+      const decryptionResults = await raceWithSignal(
+        rawInstance.publicDecrypt(handlesToDecrypt).then(normalizeDecryptionResults),
+        getStaleSignal()
+      );
 
       results.value = decryptionResults;
       message.value = "Public decryption completed!";
     } catch (err) {
+      if (isFhevmAbortError(err)) {
+        message.value = "Request stale, ignoring results";
+        return;
+      }
       const errorObj = err as Error;
       error.value = errorObj.message || "Public decryption failed";
       message.value = "Public decryption failed";
@@ -182,7 +196,10 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
     error.value = null;
 
     try {
-      const result = await rawInstance.publicDecrypt(customHandles);
+      const result = await raceWithSignal(
+        rawInstance.publicDecrypt(customHandles).then(normalizeDecryptionResults),
+        getStaleSignal()
+      );
 
       message.value = "Custom public decryption completed!";
       return result;
@@ -212,11 +229,14 @@ export function usePublicDecrypt(config: UsePublicDecryptConfig): UsePublicDecry
     error.value = null;
 
     try {
-      const result = await rawInstance.publicDecrypt([handle]);
+      const result = await raceWithSignal(
+        rawInstance.publicDecrypt([handle]).then(normalizeDecryptionResults),
+        getStaleSignal()
+      );
 
       message.value = "Single public decryption completed!";
 
-      const decryptedValue = result[handle];
+      const decryptedValue = result[FheHandle.key(handle)];
       if (decryptedValue === undefined) {
         throw new Error(`No result found for handle ${handle}`);
       }
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Abort signal scoped to a set of reactive sources
+ * @module @fhevm-sdk/vue
+ */
+
+import { watch, onUnmounted, type WatchSource } from "vue";
+import { FhevmAbortError } from "../../core/abort";
+
+/**
+ * Get a signal that aborts when any of `sources` changes or the component
+ * unmounts, cancelling the operations started before
+ *
+ * @returns Getter for the signal of the current sources
+ */
+export function useStaleSignal(sources: WatchSource[]): () => AbortSignal {
+  let controller = new AbortController();
+
+  const renew = () => {
+    controller.abort(new FhevmAbortError("Request is stale"));
+    controller = new AbortController();
+  };
+
+  watch(sources, renew, { flush: "sync" });
+  onUnmounted(renew);
+
+  return () => controller.signal;
+}
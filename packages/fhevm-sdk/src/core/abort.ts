@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Cancellation of FHEVM operations with AbortSignal
+ * @module @fhevm-sdk/core/abort
+ */
+
+/**
+ * Error thrown when an FHEVM operation is cancelled
+ */
+export class FhevmAbortError extends Error {
+  constructor(
+    message = "FHEVM operation was cancelled",
+    public reason?: unknown
+  ) {
+    super(message);
+    this.name = "FhevmAbortError";
+  }
+}
+
+/**
+ * Options accepted by cancellable operations
+ */
+export interface FhevmOperationOptions {
+  /**
+   * Cancels the operation. Proof generation and relayer requests that are
+   * already running are not interrupted, but their results are discarded and
+   * the operation rejects with `FhevmAbortError` right away.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Whether an error comes from a cancelled operation
+ */
+export function isFhevmAbortError(error: unknown): error is FhevmAbortError {
+  return error instanceof FhevmAbortError;
+}
+
+/**
+ * Throw `FhevmAbortError` if the signal is already aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new FhevmAbortError(undefined, signal.reason);
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with `FhevmAbortError` as soon as the
+ * signal aborts, whichever comes first
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // The abandoned promise may still reject later
+    promise.catch(() => {});
+    return Promise.reject(new FhevmAbortError(undefined, signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      promise.catch(() => {});
+      reject(new FhevmAbortError(undefined, signal.reason));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Signal that aborts when any of the given signals aborts
+ */
+export function anySignal(...signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const defined = signals.filter((s): s is AbortSignal => s !== undefined);
+  if (defined.length <= 1) {
+    return defined[0];
+  }
+
+  const controller = new AbortController();
+  const onAbort = (event: Event) => {
+    defined.forEach(s => s.removeEventListener("abort", onAbort));
+    controller.abort((event.target as AbortSignal).reason);
+  };
+
+  for (const signal of defined) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+  }
+  if (!controller.signal.aborted) {
+    defined.forEach(s => s.addEventListener("abort", onAbort, { once: true }));
+  }
+  return controller.signal;
+}
@@ -0,0 +1,296 @@
+/**
+ * @fileoverview Coalescing of concurrent user decryption requests
+ * @module @fhevm-sdk/core/batching
+ */
+
+import type { FhevmTypedDataSigner } from "./signer";
+import type { GenericStringStorage } from "../storage/GenericStringStorage";
+import type { DecryptionRequest, DecryptionResults } from "./decryption";
+import { FhevmAbortError, raceWithSignal } from "./abort";
+import { FheHandle, type FheType } from "./handle";
+
+/**
+ * Decrypts one coalesced batch with a single signature and relayer call
+ */
+export type DecryptBatchFn = (
+  requests: DecryptionRequest[],
+  signer: FhevmTypedDataSigner,
+  signatureStorage: GenericStringStorage | undefined
+) => Promise<DecryptionResults>;
+
+/**
+ * Decryption batching options
+ */
+export interface DecryptionBatcherOptions {
+  /**
+   * How long to collect requests before sending a batch, in milliseconds.
+   * 0 collects the calls made in the same tick.
+   *
+   * @default 0
+   */
+  windowMs?: number;
+
+  /**
+   * Send a batch as soon as it holds this many distinct handles
+   *
+   * @default 64
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Options of a single batched call
+ */
+export interface BatchedDecryptOptions {
+  /** Storage for caching EIP-712 signatures */
+  signatureStorage?: GenericStringStorage;
+
+  /** Cancels this call only; the rest of the batch goes on */
+  signal?: AbortSignal;
+}
+
+type Caller = {
+  keys: string[];
+  requests: DecryptionRequest[];
+  resolve: (results: DecryptionResults) => void;
+  reject: (error: unknown) => void;
+};
+
+type Batch = {
+  signer: FhevmTypedDataSigner;
+  signatureStorage: GenericStringStorage | undefined;
+  /** Distinct requests keyed by contract and handle, with their number of callers */
+  entries: Map<string, { request: DecryptionRequest; waiters: number }>;
+  callers: Set<Caller>;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+const DEFAULT_MAX_BATCH_SIZE = 64;
+
+/**
+ * Maximum encrypted bits of one `userDecrypt` request
+ */
+export const MAX_USER_DECRYPT_BITS = 2048;
+
+/**
+ * Maximum distinct contracts of one `userDecrypt` request
+ */
+export const MAX_USER_DECRYPT_CONTRACTS = 10;
+
+/** Bits counted by the relayer SDK per encrypted type (`ebool` counts 2) */
+const USER_DECRYPT_BITS: Record<FheType, number> = {
+  ebool: 2,
+  euint4: 4,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  eaddress: 160,
+  euint256: 256,
+};
+
+/** Bits of a handle from its type byte; 0 for values the relayer will reject anyway */
+const decryptionBits = (handle: string): number =>
+  FheHandle.isHandle(handle) ? USER_DECRYPT_BITS[FheHandle.from(handle).fheType] ?? 0 : 0;
+
+const requestKey = (request: DecryptionRequest) =>
+  `${request.contractAddress.toLowerCase()}:${request.handle.toLowerCase()}`;
+
+/**
+ * DataLoader-style batcher for user decryption
+ *
+ * Calls made within the batching window with the same signer and signature
+ * storage are merged: identical handles are requested once, and all
+ * contracts are decrypted by one `userDecrypt` behind a single signature.
+ * Each caller receives the results of its own handles.
+ *
+ * A batch is sent early, and the call goes into a new one, when the call
+ * would take the batch past `MAX_USER_DECRYPT_BITS` or
+ * `MAX_USER_DECRYPT_CONTRACTS`, which the relayer SDK rejects.
+ *
+ * @example
+ * ```typescript
+ * const batcher = new DecryptionBatcher((requests, signer, storage) =>
+ *   manager.decrypt(requests, signer, { signatureStorage: storage })
+ * );
+ *
+ * // One relayer round-trip
+ * const [a, b] = await Promise.all([
+ *   batcher.decrypt([{ handle: balanceHandle, contractAddress: token }], signer),
+ *   batcher.decrypt([{ handle: bidHandle, contractAddress: auction }], signer),
+ * ]);
+ * ```
+ */
+export class DecryptionBatcher {
+  private batches: Batch[] = [];
+  private options: Required<DecryptionBatcherOptions>;
+
+  constructor(
+    private run: DecryptBatchFn,
+    options: DecryptionBatcherOptions = {}
+  ) {
+    this.options = {
+      windowMs: options.windowMs ?? 0,
+      maxBatchSize: options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE,
+    };
+  }
+
+  /**
+   * Number of batches waiting to be sent
+   */
+  get pendingBatches(): number {
+    return this.batches.length;
+  }
+
+  /**
+   * Queue requests for the next batch of this signer and storage
+   *
+   * @returns Results of the given requests, keyed by handle
+   * @throws {FhevmAbortError} If `options.signal` aborts
+   */
+  decrypt(
+    requests: DecryptionRequest[],
+    signer: FhevmTypedDataSigner,
+    options: BatchedDecryptOptions = {}
+  ): Promise<DecryptionResults> {
+    const { signatureStorage, signal } = options;
+
+    if (requests.length === 0) {
+      return Promise.resolve({});
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new FhevmAbortError(undefined, signal.reason));
+    }
+
+    const own = new Map(requests.map(request => [requestKey(request), request]));
+    let batch = this.getBatch(signer, signatureStorage);
+    if (batch.entries.size > 0 && !this.fits(batch, own)) {
+      this.dispatch(batch);
+      batch = this.getBatch(signer, signatureStorage);
+    }
+    const keys = Array.from(own.keys());
+
+    const promise = new Promise<DecryptionResults>((resolve, reject) => {
+      const caller: Caller = { keys, requests, resolve, reject };
+      batch.callers.add(caller);
+
+      for (const [key, request] of own) {
+        const entry = batch.entries.get(key);
+        if (entry) {
+          entry.waiters++;
+        } else {
+          batch.entries.set(key, { request, waiters: 1 });
+        }
+      }
+
+      signal?.addEventListener(
+        "abort",
+        () => {
+          // Leave the batch if it has not been sent yet
+          if (this.batches.includes(batch)) {
+            this.removeCaller(batch, caller);
+          }
+        },
+        { once: true }
+      );
+    });
+
+    if (batch.entries.size >= this.options.maxBatchSize) {
+      this.dispatch(batch);
+    }
+
+    return raceWithSignal(promise, signal);
+  }
+
+  /**
+   * Send all waiting batches now
+   */
+  flush(): void {
+    [...this.batches].forEach(batch => this.dispatch(batch));
+  }
+
+  private getBatch(
+    signer: FhevmTypedDataSigner,
+    signatureStorage: GenericStringStorage | undefined
+  ): Batch {
+    let batch = this.batches.find(
+      b => b.signer === signer && b.signatureStorage === signatureStorage
+    );
+
+    if (!batch) {
+      const created: Batch = {
+        signer,
+        signatureStorage,
+        entries: new Map(),
+        callers: new Set(),
+      };
+      created.timer = setTimeout(() => this.dispatch(created), this.options.windowMs);
+      this.batches.push(created);
+      batch = created;
+    }
+
+    return batch;
+  }
+
+  /**
+   * Whether the batch with `own` added stays within the `userDecrypt` limits
+   */
+  private fits(batch: Batch, own: Map<string, DecryptionRequest>): boolean {
+    const merged = new Map(Array.from(batch.entries, ([key, entry]) => [key, entry.request]));
+    own.forEach((request, key) => merged.set(key, request));
+
+    let bits = 0;
+    const contracts = new Set<string>();
+    for (const request of merged.values()) {
+      bits += decryptionBits(request.handle);
+      contracts.add(request.contractAddress.toLowerCase());
+    }
+    return bits <= MAX_USER_DECRYPT_BITS && contracts.size <= MAX_USER_DECRYPT_CONTRACTS;
+  }
+
+  private removeCaller(batch: Batch, caller: Caller): void {
+    batch.callers.delete(caller);
+
+    for (const key of caller.keys) {
+      const entry = batch.entries.get(key);
+      if (entry && --entry.waiters === 0) {
+        batch.entries.delete(key);
+      }
+    }
+
+    if (batch.callers.size === 0) {
+      clearTimeout(batch.timer);
+      this.batches = this.batches.filter(b => b !== batch);
+    }
+  }
+
+  private async dispatch(batch: Batch): Promise<void> {
+    clearTimeout(batch.timer);
+    this.batches = this.batches.filter(b => b !== batch);
+
+    if (batch.callers.size === 0) {
+      return;
+    }
+
+    const requests = Array.from(batch.entries.values(), entry => entry.request);
+
+    try {
+      const results = await this.run(requests, batch.signer, batch.signatureStorage);
+
+      batch.callers.forEach(caller => {
+        const own: DecryptionResults = {};
+        for (const { handle } of caller.requests) {
+          const key = FheHandle.key(handle);
+          const value = results[key];
+          if (value !== undefined) {
+            own[key] = value;
+          }
+        }
+        caller.resolve(own);
+      });
+    } catch (error) {
+      batch.callers.forEach(caller => caller.reject(error));
+    }
+  }
+}
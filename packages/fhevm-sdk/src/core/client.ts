@@ -4,12 +4,57 @@
  */
 
 import type { Eip1193Provider } from "ethers";
-import { JsonRpcSigner } from "ethers";
 import { createFhevmInstance } from "../internal/fhevm";
 import type { FhevmInstance } from "../fhevmTypes";
 import { FhevmDecryptionSignature } from "../FhevmDecryptionSignature";
 import type { GenericStringStorage } from "../storage/GenericStringStorage";
 import { GenericStringInMemoryStorage } from "../storage/GenericStringStorage";
+import type { PublicKeyCache } from "../storage/PublicKeyCache";
+import { FhevmNetworkRegistry, type FhevmNetworkConfig, type FhevmNetworkOverrides } from "./networks";
+import {
+  parsePublicKeyBundle,
+  PUBLIC_KEY_BUNDLE_VERSION,
+  type PublicKeyBundle,
+} from "./keyBundle";
+import { getRelayerRetryAfter, type RelayerFetch } from "../internal/relayerTransport";
+import { setInstanceTypedDataHasher, type TypedDataHasher } from "../internal/typedData";
+import { TypedEventEmitter, type FHEVMClientEvents, type FHEVMOperation, type EventListener } from "./events";
+import {
+  withRetry,
+  getRelayerErrorCause,
+  DEFAULT_RETRY_POLICY,
+  parseRetryAfter,
+  type RetryPolicy,
+  type OperationTimeouts,
+} from "./retry";
+import {
+  EncryptionBuilder,
+  planEncryptedCall,
+  planEncryptedSchema,
+  planEncryptionBatch,
+  withInputValidation,
+  type BatchHandleLocation,
+  type TypedEncryptableValue,
+  type EncryptionSchema,
+  type EncryptionSchemaValues,
+  type SchemaEncryptionResult,
+} from "./encryption";
+import {
+  DecryptionManager,
+  checkDecryptionRequestTypes,
+  normalizeDecryptionResults,
+  planTypedDecryption,
+  type DecryptedValues,
+  type TypedDecryptionRequests,
+} from "./decryption";
+import { DecryptionBatcher, type DecryptionBatcherOptions } from "./batching";
+import type { FhevmTypedDataSigner } from "./signer";
+import { FhevmAbortError, raceWithSignal, throwIfAborted, type FhevmOperationOptions } from "./abort";
+import { EncryptionWorkerPool, type EncryptionWorkersConfig } from "./workerPool";
+import { getWasmThreadingSupport } from "./threads";
+import type { FheType } from "./handle";
+import type { RelayerSDKSource } from "./sdkSource";
+import type { FhevmInitSDKOptions } from "../internal/fhevmTypes";
 import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
 
 /**
@@ -38,11 +83,176 @@ export interface FHEVMClientConfig {
    */
   mockChains?: Record<number, string>;
 
+  /**
+   * fhEVM networks to register or override, keyed by chain ID.
+   * Merged over the built-in networks (Sepolia). Initialization fails
+   * on chains that are neither built-in nor registered here.
+   *
+   * @example
+   * ```typescript
+   * networks: {
+   *   // Override the relayer of a built-in network
+   *   11155111: { relayerUrl: 'https://relayer.example.com' },
+   *   // Register a private devnet
+   *   31415: { chainId: 31415, aclContractAddress: '0x...', ... },
+   * }
+   * ```
+   */
+  networks?: FhevmNetworkOverrides;
+
+  /**
+   * Relayer base URL. Overrides the relayer of the resolved network,
+   * e.g. to go through your own relayer proxy.
+   */
+  relayerUrl?: string;
+
+  /**
+   * Extra headers sent with every relayer request (key download, input
+   * proof, user and public decryption), e.g. `{ 'x-api-key': '...' }`
+   */
+  relayerHeaders?: Record<string, string>;
+
+  /**
+   * Custom fetch used for every relayer request. Receives the request
+   * with `relayerHeaders` already applied.
+   */
+  relayerFetch?: RelayerFetch;
+
+  /**
+   * Retry policy for relayer operations (encrypt, decrypt, publicDecrypt).
+   * Without a policy every operation makes a single attempt.
+   *
+   * @example
+   * ```typescript
+   * retry: { maxAttempts: 4, initialDelayMs: 250, retryOnStatus: [429, 502, 503] }
+   * ```
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Per-operation timeouts in milliseconds, covering every attempt of the
+   * relayer call (not the wallet signature prompt)
+   */
+  timeouts?: OperationTimeouts;
+
+  /**
+   * Coalesce `decrypt` calls made within a short window (default: the same
+   * tick) into one signature and one relayer request per signer. Operation
+   * events are then emitted once per batch.
+   */
+  decryptBatching?: boolean | DecryptionBatcherOptions;
+
   /** Storage adapter for caching decryption signatures */
   signatureStorage?: GenericStringStorage;
 
+  /**
+   * Cache for the FHE public key and CRS, reused across instances and
+   * page loads instead of downloading them again. Use
+   * `PublicKeyFileSystemCache` to share keys between Node processes.
+   *
+   * @default IndexedDB in browsers, otherwise a process-wide in-memory cache
+   */
+  publicKeyCache?: PublicKeyCache;
+
+  /**
+   * How long cached key ids are trusted before `init()` checks them
+   * against the relayer's `/v1/keyurl`. Rotated keys are downloaded again
+   * and reported with a `key:rotated` event.
+   *
+   * @default 3600000 (1 hour)
+   */
+  publicKeyTtlMs?: number;
+
+  /**
+   * Key bundle shipped with the app (see `exportPublicKeyBundle`). Seeds
+   * an empty key cache so the first instance is created without
+   * downloading the keys. Bundles of other networks are ignored.
+   */
+  publicKeyBundle?: PublicKeyBundle | string | Uint8Array | ArrayBuffer;
+
+  /**
+   * Encrypt in Web Workers running `uni-fhevm-sdk/worker`, keeping ZK proof
+   * generation off the main thread. `encrypt`, `createEncryptedInput` and
+   * the instance used by the React/Vue hooks keep the same API; decryption
+   * stays on the main thread. `relayerFetch` does not apply in workers.
+   */
+  encryptionWorkers?: EncryptionWorkersConfig;
+
+  /**
+   * Number of WASM threads used for encryption and ZK proofs. Requires
+   * SharedArrayBuffer and, in browsers, a cross-origin isolated page
+   * (COOP/COEP headers); otherwise the SDK runs single-threaded and emits
+   * `sdk:threadsUnavailable`.
+   *
+   * The relayer SDK is initialized once per page or process: `thread`,
+   * `tfheParams` and `kmsParams` of the first client to initialize apply.
+   *
+   * @default undefined (single-threaded)
+   */
+  thread?: number;
+
+  /** TFHE WASM module (or its URL) passed to the relayer SDK's `initSDK` */
+  tfheParams?: FhevmInitSDKOptions["tfheParams"];
+
+  /** KMS WASM module (or its URL) passed to the relayer SDK's `initSDK` */
+  kmsParams?: FhevmInitSDKOptions["kmsParams"];
+
+  /**
+   * Where to load the relayer SDK from: the npm package, Zama's CDN with
+   * a Subresource Integrity hash, or your own URL. Initialization fails
+   * with `RelayerSDKLoadError` if the loaded SDK is invalid or its version
+   * does not match `RELAYER_SDK_VERSION`. Like `thread`, only the first
+   * client's source applies; encryption workers load the same source.
+   *
+   * @default { type: 'npm' }
+   */
+  sdkSource?: RelayerSDKSource;
+
+  /**
+   * Instance to use instead of creating one, e.g. an
+   * `InMemoryFhevmInstance` to run tests without a network. Key and SDK
+   * options are then ignored, `chainId` only selects the registered network
+   * (if any), and no encryption workers are started.
+   */
+  instance?: FhevmInstance;
+
+  /**
+   * EIP-712 hasher for the decryption signature storage keys of this
+   * client. By default ethers is loaded to hash them.
+   */
+  typedDataHasher?: TypedDataHasher;
+
   /** Enable automatic initialization on creation */
   autoInit?: boolean;
+
+  /**
+   * Follow the wallet: subscribe to the EIP-1193 provider's `chainChanged`,
+   * `accountsChanged` and `disconnect` events. On a chain switch the
+   * instance is rebuilt for the new chain; on account switch or disconnect
+   * the client-held decryption signatures are dropped.
+   *
+   * Ignored when `provider` is an RPC URL.
+   *
+   * @default false
+   */
+  watchProvider?: boolean;
+}
+
+/**
+ * EIP-1193 provider that emits events (e.g. `window.ethereum`)
+ */
+interface Eip1193EventSource {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+function isEip1193EventSource(provider: unknown): provider is Eip1193EventSource {
+  return (
+    typeof provider === "object" &&
+    provider !== null &&
+    typeof (provider as Eip1193EventSource).on === "function" &&
+    typeof (provider as Eip1193EventSource).removeListener === "function"
+  );
 }
 
 /**
@@ -74,6 +284,9 @@ export interface DecryptionRequest {
 
   /** Contract address that owns the encrypted value */
   contractAddress: `0x${string}`;
+
+  /** Expected type, checked against the type encoded in the handle */
+  type?: FheType;
 }
 
 /**
@@ -87,6 +300,29 @@ export interface EncryptionResult {
   inputProof: Uint8Array;
 }
 
+/**
+ * Options of `encryptBatch`
+ */
+export interface BatchEncryptionOptions extends FhevmOperationOptions {
+  /**
+   * Number of chunks encrypted at the same time
+   *
+   * @default encryptionWorkers.size, else 1
+   */
+  concurrency?: number;
+}
+
+/**
+ * Result of `encryptBatch`
+ */
+export interface BatchEncryptionResult {
+  /** Handles and input proof of each chunk */
+  chunks: EncryptionResult[];
+
+  /** Chunk and handle position of each value, by original index */
+  indexMap: BatchHandleLocation[];
+}
+
 /**
  * Builder function for encrypted input
  */
@@ -121,6 +357,13 @@ export class FHEVMClient {
   private _status: FHEVMClientStatus = "idle";
   private _error?: Error;
   private statusListeners: Set<(status: FHEVMClientStatus) => void> = new Set();
+  private events = new TypedEventEmitter<FHEVMClientEvents>();
+  private operationCounter = 0;
+  private sessionSignatureStorage: GenericStringStorage = new GenericStringInMemoryStorage();
+  private unwatchProvider?: () => void;
+  private decryptionBatcher?: DecryptionBatcher;
+  private network?: FhevmNetworkConfig;
+  private workerPool?: EncryptionWorkerPool;
 
   constructor(config: FHEVMClientConfig) {
     this.config = {
@@ -128,6 +371,8 @@ export class FHEVMClient {
       ...config,
     };
 
+    this.watchProvider();
+
     if (this.config.autoInit) {
       this.init().catch((error) => {
         this._error = error;
@@ -178,9 +423,98 @@ export class FHEVMClient {
     };
   }
 
+  /**
+   * Subscribe to a client event
+   *
+   * @example
+   * ```typescript
+   * client.on('init:phase', ({ phase, elapsedMs }) => {
+   *   console.log(`${phase} after ${elapsedMs}ms`);
+   * });
+   * client.on('operation:error', ({ operation, error }) => {
+   *   analytics.track('fhevm_error', { operation, message: error.message });
+   * });
+   * ```
+   *
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof FHEVMClientEvents>(
+    event: K,
+    listener: EventListener<FHEVMClientEvents[K]>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of a client event
+   * @returns Unsubscribe function
+   */
+  once<K extends keyof FHEVMClientEvents>(
+    event: K,
+    listener: EventListener<FHEVMClientEvents[K]>
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
   private setStatus(status: FHEVMClientStatus): void {
     this._status = status;
     this.statusListeners.forEach(listener => listener(status));
+    this.events.emit("status", { status });
+  }
+
+  /**
+   * Run an operation and emit its start/success/error events
+   *
+   * `run` receives `relayerCall`, which applies the retry policy, timeout and
+   * abort signal of the operation and reports each attempt under the same
+   * operation id.
+   */
+  private async track<T>(
+    operation: FHEVMOperation,
+    run: (relayerCall: <R>(call: () => Promise<R>) => Promise<R>) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const id = ++this.operationCounter;
+    const startedAt = Date.now();
+    this.events.emit("operation:start", { operation, id, startedAt });
+
+    const relayerCall = <R>(call: () => Promise<R>): Promise<R> =>
+      withRetry(call, {
+        operation,
+        policy: this.config.retry,
+        timeoutMs: this.config.timeouts?.[operation],
+        onAttempt: ({ attempt }) => {
+          this.events.emit("operation:attempt", { operation, id, attempt });
+        },
+        onRetry: ({ attempt, error, delayMs }) => {
+          this.events.emit("operation:retry", { operation, id, attempt, error, delayMs });
+        },
+        getRetryAfterMs: (error) => {
+          // Carried by the url of the response that failed this call
+          const url = getRelayerErrorCause(error)?.url;
+          return url ? parseRetryAfter(getRelayerRetryAfter(url)) : undefined;
+        },
+        signal,
+      });
+
+    try {
+      throwIfAborted(signal);
+      const result = await run(relayerCall);
+      this.events.emit("operation:success", {
+        operation,
+        id,
+        durationMs: Date.now() - startedAt,
+      });
+      return result;
+    } catch (error) {
+      this.events.emit("operation:error", {
+        operation,
+        id,
+        durationMs: Date.now() - startedAt,
+        error: error as Error,
+      });
+      throw error;
+    }
   }
 
   /**
@@ -207,9 +541,23 @@ export class FHEVMClient {
     this._error = undefined;
 
     // Create abort controller for this initialization
-    this.abortController = new AbortController();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const initStartedAt = Date.now();
 
     try {
+      if (this.config.instance) {
+        // Drop the workers and network of a previous initialization
+        this.workerPool?.terminate();
+        this.workerPool = undefined;
+        const { chainId } = this.config;
+        const networks = new FhevmNetworkRegistry(this.config.networks);
+        this.network = chainId !== undefined && networks.has(chainId) ? networks.get(chainId) : undefined;
+        this.useInstance(this.config.instance);
+        this.setStatus("ready");
+        return;
+      }
+
       // Determine mockChains based on mockMode
       let mockChains = this.config.mockChains;
 
@@ -238,25 +586,124 @@ export class FHEVMClient {
         // If mockMode is undefined, use existing mockChains or default behavior
       }
 
-      this.instance = await createFhevmInstance({
+      const initSDK = this.getInitSDKOptions();
+      const instance = await createFhevmInstance({
         provider: this.config.provider,
         mockChains,
-        signal: this.abortController.signal,
+        signal: abortController.signal,
         chainId: this.config.chainId,
-        onStatusChange: (_status) => {
-          // Internal status from createFhevmInstance
-          // Silent - no logging needed in production
+        networks: new FhevmNetworkRegistry(this.config.networks),
+        publicKeyCache: this.config.publicKeyCache,
+        publicKeyTtlMs: this.config.publicKeyTtlMs,
+        onKeyRotation: (rotation) => this.events.emit("key:rotated", rotation),
+        publicKeyBundle: this.config.publicKeyBundle
+          ? parsePublicKeyBundle(this.config.publicKeyBundle)
+          : undefined,
+        initSDK,
+        sdkSource: this.config.sdkSource,
+        onNetwork: (network) => {
+          this.network = network;
+        },
+        relayer: {
+          url: this.config.relayerUrl,
+          headers: this.config.relayerHeaders,
+          fetch: this.config.relayerFetch,
+          observeRetryAfter: Boolean(
+            this.config.retry &&
+              (this.config.retry.respectRetryAfter ?? DEFAULT_RETRY_POLICY.respectRetryAfter)
+          ),
+        },
+        onStatusChange: (phase) => {
+          this.events.emit("init:phase", {
+            phase,
+            elapsedMs: Date.now() - initStartedAt,
+          });
         },
       });
 
+      if (this.abortController !== abortController) {
+        // Superseded by abort() or reinit() while the instance was created
+        throw new FhevmAbortError();
+      }
+
+      this.workerPool?.terminate();
+      this.workerPool = undefined;
+
+      if (this.config.encryptionWorkers) {
+        this.workerPool = this.createWorkerPool(this.config.encryptionWorkers, instance, mockChains, initSDK);
+        this.useInstance(this.workerPool.wrapInstance(instance));
+      } else {
+        this.useInstance(instance);
+      }
       this.setStatus("ready");
     } catch (error) {
-      this._error = error as Error;
-      this.setStatus("error");
+      if (this.abortController === abortController) {
+        this._error = error as Error;
+        this.setStatus("error");
+      }
       throw error;
     }
   }
 
+  /**
+   * `initSDK` options from the config, single-threaded when threads are
+   * requested but not available
+   */
+  private getInitSDKOptions(): FhevmInitSDKOptions | undefined {
+    const { thread, tfheParams, kmsParams } = this.config;
+    if (thread === undefined && tfheParams === undefined && kmsParams === undefined) {
+      return undefined;
+    }
+
+    if (thread) {
+      const support = getWasmThreadingSupport();
+      if (!support.supported) {
+        this.events.emit("sdk:threadsUnavailable", {
+          requestedThreads: thread,
+          sharedArrayBuffer: support.sharedArrayBuffer,
+          crossOriginIsolated: support.crossOriginIsolated,
+          reason: support.reason!,
+        });
+        return { tfheParams, kmsParams };
+      }
+    }
+
+    return { thread, tfheParams, kmsParams };
+  }
+
+  private useInstance(instance: FhevmInstance): void {
+    if (this.config.typedDataHasher) {
+      setInstanceTypedDataHasher(instance, this.config.typedDataHasher);
+    }
+    this.instance = instance;
+  }
+
+  private createWorkerPool(
+    options: EncryptionWorkersConfig,
+    instance: FhevmInstance,
+    mockChains: Record<number, string> | undefined,
+    initSDK: FhevmInitSDKOptions | undefined
+  ): EncryptionWorkerPool {
+    const { provider } = this.config;
+
+    return new EncryptionWorkerPool(
+      options,
+      {
+        rpcUrl: typeof provider === "string" ? provider : null,
+        chainId: this.network?.chainId ?? this.config.chainId,
+        mockChains,
+        networks: this.config.networks,
+        relayerUrl: this.config.relayerUrl,
+        relayerHeaders: this.config.relayerHeaders,
+        // Hand the downloaded keys to the workers; mock workers create their own
+        publicKeyBundle: this.createPublicKeyBundle(instance),
+        initSDK,
+        sdkSource: this.config.sdkSource,
+      },
+      typeof provider === "string" ? undefined : provider
+    );
+  }
+
   /**
    * Abort ongoing initialization
    */
@@ -275,20 +722,85 @@ export class FHEVMClient {
     this.abort();
 
     if (newConfig) {
+      const providerChanged =
+        newConfig.provider !== undefined && newConfig.provider !== this.config.provider;
       this.config = { ...this.config, ...newConfig };
+      if (providerChanged || newConfig.watchProvider !== undefined) {
+        this.unwatchProvider?.();
+        this.unwatchProvider = undefined;
+        this.watchProvider();
+      }
     }
 
     this.instance = undefined;
     await this.init();
   }
 
+  /**
+   * Subscribe to the provider's wallet events when `watchProvider` is enabled
+   */
+  private watchProvider(): void {
+    const provider = this.config.provider;
+    if (!this.config.watchProvider || this.unwatchProvider || !isEip1193EventSource(provider)) {
+      return;
+    }
+
+    const onChainChanged = (chainIdHex: string | number) => {
+      const chainId = Number(chainIdHex);
+      this.events.emit("provider:chainChanged", { chainId });
+      this.resetSignatureState();
+
+      if (chainId === this.config.chainId && this._status === "ready") {
+        return;
+      }
+      // Failures are reported through status "error" and the error getter
+      this.reinit({ chainId }).catch(() => {});
+    };
+
+    const onAccountsChanged = (accounts: string[]) => {
+      this.events.emit("provider:accountsChanged", { accounts });
+      this.resetSignatureState();
+    };
+
+    const onDisconnect = (error?: unknown) => {
+      this.events.emit("provider:disconnect", {
+        error: error instanceof Error ? error : undefined,
+      });
+      this.resetSignatureState();
+      this.abort();
+      this.instance = undefined;
+    };
+
+    provider.on("chainChanged", onChainChanged);
+    provider.on("accountsChanged", onAccountsChanged);
+    provider.on("disconnect", onDisconnect);
+
+    this.unwatchProvider = () => {
+      provider.removeListener("chainChanged", onChainChanged);
+      provider.removeListener("accountsChanged", onAccountsChanged);
+      provider.removeListener("disconnect", onDisconnect);
+    };
+  }
+
+  /**
+   * Drop decryption signatures held by the client itself. A user supplied
+   * `signatureStorage` is left untouched: its entries are keyed by user address.
+   */
+  private resetSignatureState(): void {
+    this.sessionSignatureStorage = new GenericStringInMemoryStorage();
+  }
+
   /**
    * Encrypt values for a smart contract
    *
    * @param builder - Function that adds values to encrypt
    * @param config - Encryption configuration
+   * @param options - Optional `signal` to cancel the operation
    * @returns Encryption result with handles and proof
    *
+   * @throws {EncryptionValidationError} If a value is invalid or the input exceeds `MAX_INPUT_BITS`
+   * @throws {FhevmAbortError} If the signal aborts
+   *
    * @example
    * ```typescript
    * const result = await client.encrypt(
@@ -305,23 +817,158 @@ export class FHEVMClient {
    */
   async encrypt(
     builder: EncryptedInputBuilder,
-    config: EncryptionConfig
+    config: EncryptionConfig,
+    options: FhevmOperationOptions = {}
   ): Promise<EncryptionResult> {
     const instance = this.getInstance();
 
-    const input = instance.createEncryptedInput(
-      config.contractAddress,
-      config.userAddress
-    ) as RelayerEncryptedInput;
+    return this.track("encrypt", (relayerCall) =>
+      relayerCall(async () => {
+        // Rebuild the input on every attempt
+        const input = withInputValidation(
+          instance.createEncryptedInput(
+            config.contractAddress,
+            config.userAddress
+          ) as RelayerEncryptedInput
+        );
 
-    builder(input);
+        builder(input);
 
-    const encrypted = await input.encrypt();
+        // Skip proof generation when cancelled while building
+        throwIfAborted(options.signal);
+        const encrypted = await input.encrypt();
 
-    return {
-      handles: encrypted.handles,
-      inputProof: encrypted.inputProof,
+        return {
+          handles: encrypted.handles,
+          inputProof: encrypted.inputProof,
+        };
+      }),
+      options.signal
+    );
+  }
+
+  /**
+   * Encrypt the arguments of a contract call
+   *
+   * Every parameter whose ABI `internalType` is an `externalE*` type is
+   * encrypted into one input; plain parameters are passed through and the
+   * shared input proof is placed at the proof parameter.
+   *
+   * @param abi - Contract ABI
+   * @param functionName - Function to call
+   * @param args - One value per parameter, except the input proof
+   * @param config - Encryption configuration
+   * @param options - Optional `signal` to cancel the operation
+   * @returns Arguments ready for the contract call
+   *
+   * @example
+   * ```typescript
+   * // function transfer(address to, externalEuint64 amount, bytes inputProof)
+   * const args = await client.encryptCall(tokenAbi, 'transfer', [to, 100n], {
+   *   contractAddress: token,
+   *   userAddress: account,
+   * });
+   * await token.transfer(...args);
+   * ```
+   */
+  async encryptCall(
+    abi: any[],
+    functionName: string,
+    args: readonly unknown[],
+    config: EncryptionConfig,
+    options: FhevmOperationOptions = {}
+  ): Promise<unknown[]> {
+    const plan = planEncryptedCall(abi, functionName, args);
+    const encrypted = await this.encrypt(plan.build, config, options);
+    return plan.toArgs(encrypted);
+  }
+
+  /**
+   * Encrypt named values described by a schema
+   *
+   * Values are validated first and encrypted in one input; the handles
+   * come back under the schema's field names.
+   *
+   * @throws {EncryptionValidationError} If a value is missing or invalid for its type
+   * @throws {FhevmAbortError} If the signal aborts
+   *
+   * @example
+   * ```typescript
+   * const { handles, inputProof } = await client.encryptSchema(
+   *   { amount: 'uint64', isBid: 'bool', to: 'address' },
+   *   { amount: 100n, isBid: true, to: '0x...' },
+   *   { contractAddress: '0x...', userAddress: '0x...' }
+   * );
+   * await contract.bid(handles.amount, handles.isBid, handles.to, inputProof);
+   * ```
+   */
+  async encryptSchema<S extends EncryptionSchema>(
+    schema: S,
+    values: EncryptionSchemaValues<S>,
+    config: EncryptionConfig,
+    options: FhevmOperationOptions = {}
+  ): Promise<SchemaEncryptionResult<S>> {
+    const plan = planEncryptedSchema(schema, values);
+    const encrypted = await this.encrypt(plan.build, config, options);
+    return plan.toResult(encrypted);
+  }
+
+  /**
+   * Encrypt more values than fit in one input
+   *
+   * Values are validated, packed into as few inputs as the bit and value
+   * limits allow, and each chunk is encrypted as its own `encrypt`
+   * operation. The first failing chunk rejects the batch and no further
+   * chunks are started.
+   *
+   * @throws {EncryptionValidationError} If a value is invalid; `index` is its index in `values`
+   * @throws {FhevmAbortError} If the signal aborts
+   *
+   * @example
+   * ```typescript
+   * const { chunks, indexMap } = await client.encryptBatch(
+   *   amounts.map((value) => ({ value, type: 'uint64' })),
+   *   { contractAddress: '0x...', userAddress: '0x...' },
+   *   { concurrency: 2 }
+   * );
+   * const { chunk, position } = indexMap[0];
+   * const firstHandle = chunks[chunk].handles[position];
+   * ```
+   */
+  async encryptBatch(
+    values: readonly TypedEncryptableValue[],
+    config: EncryptionConfig,
+    options: BatchEncryptionOptions = {}
+  ): Promise<BatchEncryptionResult> {
+    const { chunks, indexMap } = planEncryptionBatch(values);
+    const results: EncryptionResult[] = new Array(chunks.length);
+    const concurrency = Math.max(1, options.concurrency ?? this.config.encryptionWorkers?.size ?? 1);
+
+    let next = 0;
+    let failed = false;
+    const runChunks = async () => {
+      while (!failed && next < chunks.length) {
+        const chunk = next++;
+        try {
+          results[chunk] = await this.encrypt(
+            (input) => {
+              const builder = new EncryptionBuilder(input);
+              for (const index of chunks[chunk]) {
+                builder.add(values[index].value, values[index].type);
+              }
+            },
+            config,
+            { signal: options.signal }
+          );
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
     };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, runChunks));
+    return { chunks: results, indexMap };
   }
 
   /**
@@ -332,10 +979,18 @@ export class FHEVMClient {
    * 2. EIP-712 signature from the user's wallet
    * 3. A keypair for decryption (auto-generated if not provided)
    *
-   * @param requests - Array of decryption requests
-   * @param signer - Ethers JsonRpcSigner for EIP-712 signing
+   * Values are decoded by the type encoded in their handle: `boolean` for
+   * `ebool`, a checksummed address for `eaddress` and `bigint` for `euintN`.
+   * Pass named requests with declared types to get typed values by name.
+   *
+   * @param requests - Array of decryption requests, or named typed requests
+   * @param signer - EIP-712 signer (any ethers signer, or see `fromViemWalletClient` and `fromEip1193Provider`)
    * @param signatureStorage - Optional storage for caching signatures
-   * @returns Decrypted values mapped by handle
+   * @param options - Optional `signal` to cancel the operation
+   * @returns Decrypted values mapped by handle, or values by name
+   *
+   * @throws {DecryptionError} `TYPE_MISMATCH` if a declared type disagrees with its handle
+   * @throws {FhevmAbortError} If the signal aborts
    *
    * @example
    * ```typescript
@@ -348,52 +1003,109 @@ export class FHEVMClient {
    * );
    *
    * console.log(results['0x...']); // Decrypted value
+   *
+   * const { balance } = await client.decrypt(
+   *   { balance: { handle: '0x...', contractAddress: '0x...', type: 'euint64' } },
+   *   ethersSigner
+   * );
+   * // balance: bigint
    * ```
    */
-  async decrypt(
+  decrypt<R extends TypedDecryptionRequests>(
+    requests: R,
+    signer: FhevmTypedDataSigner,
+    signatureStorage?: GenericStringStorage,
+    options?: FhevmOperationOptions
+  ): Promise<DecryptedValues<R>>;
+  decrypt(
     requests: DecryptionRequest[],
-    signer: JsonRpcSigner,
-    signatureStorage?: GenericStringStorage
-  ): Promise<Record<string, string | bigint | boolean>> {
-    const instance = this.getInstance();
+    signer: FhevmTypedDataSigner,
+    signatureStorage?: GenericStringStorage,
+    options?: FhevmOperationOptions
+  ): Promise<Record<string, string | bigint | boolean>>;
+  async decrypt(
+    requests: DecryptionRequest[] | TypedDecryptionRequests,
+    signer: FhevmTypedDataSigner,
+    signatureStorage?: GenericStringStorage,
+    options: FhevmOperationOptions = {}
+  ): Promise<Record<string, string | bigint | boolean> | DecryptedValues<TypedDecryptionRequests>> {
+    // Fail fast when not ready, even when batching
+    this.getInstance();
+
+    if (!Array.isArray(requests)) {
+      const plan = planTypedDecryption(requests);
+      return plan.toValues(await this.decrypt(plan.requests, signer, signatureStorage, options));
+    }
 
     if (requests.length === 0) {
       return {};
     }
 
-    // Get unique contract addresses
-    const uniqueAddresses = Array.from(
-      new Set(requests.map(r => r.contractAddress))
-    ) as `0x${string}`[];
-
-    // Use provided storage or create a temporary in-memory one
-    const storage = signatureStorage || new GenericStringInMemoryStorage();
+    checkDecryptionRequestTypes(requests);
 
-    // Load or create EIP-712 signature
-    const signature = await FhevmDecryptionSignature.loadOrSign(
-      instance,
-      uniqueAddresses,
-      signer,
-      storage
-    );
+    // Use provided storage, the configured one, or the client's session storage
+    const storage =
+      signatureStorage || this.config.signatureStorage || this.sessionSignatureStorage;
 
-    if (!signature) {
-      throw new Error("Failed to create decryption signature");
+    if (this.config.decryptBatching) {
+      if (!this.decryptionBatcher) {
+        this.decryptionBatcher = new DecryptionBatcher(
+          (batch, batchSigner, batchStorage) => this.decryptNow(batch, batchSigner, batchStorage),
+          this.config.decryptBatching === true ? {} : this.config.decryptBatching
+        );
+      }
+      return this.decryptionBatcher.decrypt(requests, signer, {
+        signatureStorage: storage,
+        signal: options.signal,
+      });
     }
 
-    // Perform decryption
-    const results = await instance.userDecrypt(
-      requests.map(r => ({ handle: r.handle, contractAddress: r.contractAddress })),
-      signature.privateKey,
-      signature.publicKey,
-      signature.signature,
-      signature.contractAddresses,
-      signature.userAddress,
-      signature.startTimestamp,
-      signature.durationDays
-    );
+    return this.decryptNow(requests, signer, storage, options.signal);
+  }
 
-    return results;
+  /**
+   * Sign (or load the signature) and user-decrypt in one relayer request
+   */
+  private async decryptNow(
+    requests: DecryptionRequest[],
+    signer: FhevmTypedDataSigner,
+    storage: GenericStringStorage,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | bigint | boolean>> {
+    const instance = this.getInstance();
+
+    return this.track("decrypt", async (relayerCall) => {
+      // Get unique contract addresses
+      const uniqueAddresses = Array.from(
+        new Set(requests.map(r => r.contractAddress))
+      ) as `0x${string}`[];
+
+      // Load or create EIP-712 signature. A pending wallet prompt cannot be
+      // closed, but an abort stops waiting for it.
+      const signature = await raceWithSignal(
+        FhevmDecryptionSignature.loadOrSign(instance, uniqueAddresses, signer, storage),
+        signal
+      );
+
+      if (!signature) {
+        throw new Error("Failed to create decryption signature");
+      }
+
+      // Perform decryption
+      const results = await relayerCall(() =>
+        instance.userDecrypt(
+          requests.map(r => ({ handle: r.handle, contractAddress: r.contractAddress })),
+          signature.privateKey,
+          signature.publicKey,
+          signature.signature,
+          signature.contractAddresses,
+          signature.userAddress,
+          signature.startTimestamp,
+          signature.durationDays
+        )
+      );
+      return normalizeDecryptionResults(results);
+    }, signal);
   }
 
   /**
@@ -409,8 +1121,11 @@ export class FHEVMClient {
    * (e.g., auction results, game outcomes, public counters).
    *
    * @param handles - Array of ciphertext handles to decrypt
+   * @param options - Optional `signal` to cancel the operation
    * @returns Decrypted values mapped by handle
    *
+   * @throws {FhevmAbortError} If the signal aborts
+   *
    * @example
    * ```typescript
    * const results = await client.publicDecrypt([
@@ -423,7 +1138,8 @@ export class FHEVMClient {
    * ```
    */
   async publicDecrypt(
-    handles: string[]
+    handles: string[],
+    options: FhevmOperationOptions = {}
   ): Promise<Record<string, string | bigint | boolean>> {
     const instance = this.getInstance();
 
@@ -432,9 +1148,24 @@ export class FHEVMClient {
     }
 
     // Call the Relayer SDK's publicDecrypt method
-    const results = await instance.publicDecrypt(handles);
+    return this.track("publicDecrypt", (relayerCall) =>
+      relayerCall(async () => normalizeDecryptionResults(await instance.publicDecrypt(handles))),
+      options.signal
+    );
+  }
 
-    return results;
+  /**
+   * Create a DecryptionManager bound to this client's instance
+   *
+   * Its relayer calls use the client's retry policy and timeouts and are
+   * reported through the client's events.
+   */
+  createDecryptionManager(): DecryptionManager {
+    return new DecryptionManager(this.getInstance(), {
+      batching: this.config.decryptBatching,
+      runRelayerCall: (operation, call, signal) =>
+        this.track(operation, (relayerCall) => relayerCall(call), signal),
+    });
   }
 
   /**
@@ -451,7 +1182,9 @@ export class FHEVMClient {
     userAddress: `0x${string}`
   ): RelayerEncryptedInput {
     const instance = this.getInstance();
-    return instance.createEncryptedInput(contractAddress, userAddress) as RelayerEncryptedInput;
+    return withInputValidation(
+      instance.createEncryptedInput(contractAddress, userAddress) as RelayerEncryptedInput
+    );
   }
 
   /**
@@ -466,13 +1199,54 @@ export class FHEVMClient {
     return (instance as any).generateKeypair();
   }
 
+  /**
+   * Export the current FHE public key and CRS, e.g. at build time to ship
+   * them with the app (see `serializePublicKeyBundle`)
+   *
+   * @throws {Error} If the client is not initialized or runs in mock mode
+   */
+  exportPublicKeyBundle(): PublicKeyBundle {
+    const bundle = this.createPublicKeyBundle(this.getInstance());
+    if (!bundle) {
+      throw new Error("No public key to export (mock instances have none)");
+    }
+    return bundle;
+  }
+
+  /**
+   * Key bundle of `instance` on the current network, undefined for mock
+   * instances
+   */
+  private createPublicKeyBundle(instance: FhevmInstance): PublicKeyBundle | undefined {
+    const publicKey = instance.getPublicKey();
+    const publicParams = instance.getPublicParams(2048);
+
+    if (!this.network || !publicKey || !publicParams) {
+      return undefined;
+    }
+
+    return {
+      version: PUBLIC_KEY_BUNDLE_VERSION,
+      chainId: this.network.chainId,
+      aclAddress: this.network.aclContractAddress,
+      createdAt: Date.now(),
+      publicKey,
+      publicParams,
+    };
+  }
+
   /**
    * Dispose of the client and clean up resources
    */
   dispose(): void {
+    this.unwatchProvider?.();
+    this.unwatchProvider = undefined;
+    this.workerPool?.terminate();
+    this.workerPool = undefined;
     this.abort();
     this.instance = undefined;
     this.statusListeners.clear();
+    this.events.removeAllListeners();
     this.setStatus("idle");
   }
 }
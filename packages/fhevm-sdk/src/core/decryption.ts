@@ -4,10 +4,15 @@
  */
 
 import type { FhevmInstance } from "../fhevmTypes";
-import type { JsonRpcSigner } from "ethers";
+import type { FhevmTypedDataSigner } from "./signer";
 import { FhevmDecryptionSignature } from "../FhevmDecryptionSignature";
 import type { GenericStringStorage } from "../storage/GenericStringStorage";
 import { GenericStringInMemoryStorage } from "../storage/GenericStringStorage";
+import { withRetry, FhevmTimeoutError, type RetryPolicy, type OperationTimeouts } from "./retry";
+import { FhevmAbortError, raceWithSignal, type FhevmOperationOptions } from "./abort";
+import { DecryptionBatcher, type DecryptionBatcherOptions } from "./batching";
+import { FheHandle, type FheType } from "./handle";
+import { toChecksumAddress } from "../internal/address";
 
 /**
  * Single decryption request
@@ -18,6 +23,9 @@ export interface DecryptionRequest {
 
   /** Contract address that owns the encrypted value */
   contractAddress: `0x${string}`;
+
+  /** Expected type, checked against the type encoded in the handle */
+  type?: FheType;
 }
 
 /**
@@ -26,10 +34,160 @@ export interface DecryptionRequest {
 export type DecryptionResult = string | bigint | boolean;
 
 /**
- * Map of decrypted results keyed by handle
+ * Decrypted value of an encrypted type: `boolean` for `ebool`, a
+ * checksummed address for `eaddress` and `bigint` for `euintN`
+ */
+export type FheValue<T extends FheType = FheType> = T extends "ebool"
+  ? boolean
+  : T extends "eaddress"
+    ? `0x${string}`
+    : bigint;
+
+/**
+ * Decryption request with a declared type
+ */
+export interface TypedDecryptionRequest<T extends FheType = FheType> extends DecryptionRequest {
+  type: T;
+}
+
+/**
+ * Named typed decryption requests
+ *
+ * @example
+ * ```typescript
+ * const { balance, isOwner } = await client.decrypt(
+ *   {
+ *     balance: { handle: balanceHandle, contractAddress, type: 'euint64' },
+ *     isOwner: { handle: ownerHandle, contractAddress, type: 'ebool' },
+ *   },
+ *   signer
+ * );
+ * // balance: bigint, isOwner: boolean
+ * ```
+ */
+export type TypedDecryptionRequests = Record<string, TypedDecryptionRequest>;
+
+/**
+ * Decrypted values of named typed requests
+ */
+export type DecryptedValues<R extends TypedDecryptionRequests> = {
+  [K in keyof R]: FheValue<R[K]["type"]>;
+};
+
+/**
+ * Convert a relayer value to the JavaScript type of an encrypted type
+ *
+ * @throws {DecryptionError} `TYPE_MISMATCH` if the value does not fit the type
+ */
+export function decodeFheValue<T extends FheType>(type: T, value: unknown): FheValue<T> {
+  const asBigInt = (): bigint | undefined => {
+    if (typeof value === "bigint") return value;
+    if (typeof value === "number" && Number.isSafeInteger(value)) return BigInt(value);
+    if (typeof value === "string" && /^(0x[0-9a-fA-F]+|[0-9]+)$/.test(value)) return BigInt(value);
+    return undefined;
+  };
+
+  let decoded: boolean | bigint | `0x${string}` | undefined;
+  if (type === "ebool") {
+    const n = asBigInt();
+    decoded = typeof value === "boolean" ? value : n === 0n || n === 1n ? n === 1n : undefined;
+  } else {
+    const n = asBigInt();
+    const bits = type === "eaddress" ? 160n : BigInt(type.slice("euint".length));
+    if (n !== undefined && n >= 0n && n < 1n << bits) {
+      decoded = type === "eaddress" ? toChecksumAddress(n.toString(16).padStart(40, "0")) : n;
+    }
+  }
+
+  if (decoded === undefined) {
+    throw new DecryptionError("TYPE_MISMATCH", `Decrypted value ${String(value)} is not a valid ${type}`);
+  }
+  return decoded as FheValue<T>;
+}
+
+/**
+ * Check declared request types against the types encoded in their handles
+ *
+ * @throws {DecryptionError} `TYPE_MISMATCH` on the first disagreement
+ */
+export function checkDecryptionRequestTypes(requests: DecryptionRequest[]): void {
+  for (const { handle, type } of requests) {
+    if (type === undefined || !FheHandle.isHandle(handle)) {
+      continue;
+    }
+    const encoded = FheHandle.from(handle).fheType;
+    if (encoded !== type) {
+      throw new DecryptionError(
+        "TYPE_MISMATCH",
+        `Handle ${handle} encodes ${encoded ?? "an unknown type"}, but the request declares ${type}`
+      );
+    }
+  }
+}
+
+/**
+ * Named typed requests as plain requests, and their results as named values
+ */
+export interface TypedDecryptionPlan<R extends TypedDecryptionRequests> {
+  requests: DecryptionRequest[];
+  toValues(results: DecryptionResults): DecryptedValues<R>;
+}
+
+/**
+ * Plan the decryption of named typed requests
+ *
+ * @throws {DecryptionError} `TYPE_MISMATCH` if a declared type disagrees with its handle
+ */
+export function planTypedDecryption<R extends TypedDecryptionRequests>(
+  requests: R
+): TypedDecryptionPlan<R> {
+  const entries = Object.entries(requests);
+  const plain = entries.map(([, { handle, contractAddress, type }]) => ({ handle, contractAddress, type }));
+  checkDecryptionRequestTypes(plain);
+
+  return {
+    requests: plain,
+    toValues(results) {
+      const values = {} as Record<string, unknown>;
+      for (const [name, { handle, type }] of entries) {
+        const value = results[FheHandle.key(handle)];
+        if (value === undefined) {
+          throw new DecryptionError("DECRYPT_NOT_FOUND", `Decryption result not found for ${name}: ${handle}`);
+        }
+        values[name] = decodeFheValue(type, value);
+      }
+      return values as DecryptedValues<R>;
+    },
+  };
+}
+
+/**
+ * Map of decrypted results keyed by handle, as 0x-prefixed lowercase hex
+ * (`FheHandle.from(handle).hex`)
  */
 export type DecryptionResults = Record<string, DecryptionResult>;
 
+/**
+ * Re-key relayer results by normalized handle and decode each value by the
+ * type encoded in its handle. Values that do not fit are kept as returned.
+ */
+export function normalizeDecryptionResults(results: Record<string, DecryptionResult>): DecryptionResults {
+  const normalized: DecryptionResults = {};
+  for (const [handle, value] of Object.entries(results)) {
+    const type = FheHandle.isHandle(handle) ? FheHandle.from(handle).fheType : undefined;
+    let decoded = value;
+    if (type) {
+      try {
+        decoded = decodeFheValue(type, value);
+      } catch {
+        // Keep the relayer's value
+      }
+    }
+    normalized[FheHandle.key(handle)] = decoded;
+  }
+  return normalized;
+}
+
 /**
  * Decryption configuration options
  */
@@ -45,6 +203,38 @@ export interface DecryptionConfig {
 
   /** Force refresh signature (bypass cache) */
   forceRefresh?: boolean;
+
+  /** Cancels the decryption with `FhevmAbortError` */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs a relayer call, e.g. with retries and a timeout
+ */
+export type RelayerCallRunner = <T>(
+  operation: "decrypt" | "publicDecrypt",
+  call: () => Promise<T>,
+  signal?: AbortSignal
+) => Promise<T>;
+
+/**
+ * Decryption manager options
+ */
+export interface DecryptionManagerOptions {
+  /** Retry policy for relayer calls (default: single attempt) */
+  retry?: RetryPolicy;
+
+  /** Per-operation timeouts in milliseconds */
+  timeouts?: OperationTimeouts;
+
+  /** Custom runner for relayer calls; replaces `retry` and `timeouts` */
+  runRelayerCall?: RelayerCallRunner;
+
+  /**
+   * Coalesce concurrent `decrypt` calls into batched relayer requests.
+   * Calls with a custom `keypair` or `forceRefresh` are never batched.
+   */
+  batching?: boolean | DecryptionBatcherOptions;
 }
 
 /**
@@ -71,10 +261,29 @@ export interface DecryptionConfig {
 export class DecryptionManager {
   private instance: FhevmInstance;
   private defaultStorage: GenericStringStorage;
+  private runRelayerCall: RelayerCallRunner;
+  private batcher?: DecryptionBatcher;
 
-  constructor(instance: FhevmInstance) {
+  constructor(instance: FhevmInstance, options: DecryptionManagerOptions = {}) {
     this.instance = instance;
     this.defaultStorage = new GenericStringInMemoryStorage();
+    this.runRelayerCall =
+      options.runRelayerCall ??
+      ((operation, call, signal) =>
+        withRetry(call, {
+          operation,
+          policy: options.retry,
+          timeoutMs: options.timeouts?.[operation],
+          signal,
+        }));
+
+    if (options.batching) {
+      this.batcher = new DecryptionBatcher(
+        (requests, signer, signatureStorage) =>
+          this.decryptNow(requests, signer, { signatureStorage }),
+        options.batching === true ? {} : options.batching
+      );
+    }
   }
 
   /**
@@ -86,18 +295,41 @@ export class DecryptionManager {
    * 3. Calls the Zama relayer for decryption
    * 4. Returns decrypted values
    *
-   * @param requests - Array of decryption requests
-   * @param signer - Ethers signer for EIP-712 signature
+   * With `batching` enabled, calls made within the batching window share one
+   * signature and relayer request.
+   *
+   * Named requests with declared types (`TypedDecryptionRequests`) resolve to
+   * values of the matching JavaScript types.
+   *
+   * @param requests - Array of decryption requests, or named typed requests
+   * @param signer - EIP-712 signer (any ethers signer, or see `fromViemWalletClient` and `fromEip1193Provider`)
    * @param config - Optional decryption configuration
-   * @returns Map of decrypted values keyed by handle
+   * @returns Map of decrypted values keyed by handle, or values by name
    *
-   * @throws {DecryptionError} If decryption fails
+   * @throws {DecryptionError} If decryption fails, or `TYPE_MISMATCH` if a
+   * declared type disagrees with its handle
+   * @throws {FhevmAbortError} If `config.signal` aborts
    */
-  async decrypt(
+  decrypt<R extends TypedDecryptionRequests>(
+    requests: R,
+    signer: FhevmTypedDataSigner,
+    config?: DecryptionConfig
+  ): Promise<DecryptedValues<R>>;
+  decrypt(
     requests: DecryptionRequest[],
-    signer: JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
+    config?: DecryptionConfig
+  ): Promise<DecryptionResults>;
+  async decrypt(
+    requests: DecryptionRequest[] | TypedDecryptionRequests,
+    signer: FhevmTypedDataSigner,
     config: DecryptionConfig = {}
-  ): Promise<DecryptionResults> {
+  ): Promise<DecryptionResults | DecryptedValues<TypedDecryptionRequests>> {
+    if (!Array.isArray(requests)) {
+      const plan = planTypedDecryption(requests);
+      return plan.toValues(await this.decrypt(plan.requests, signer, config));
+    }
+
     // Validate inputs
     if (requests.length === 0) {
       return {};
@@ -105,6 +337,24 @@ export class DecryptionManager {
 
     this.validateRequests(requests);
 
+    if (this.batcher && !config.keypair && !config.forceRefresh) {
+      return this.batcher.decrypt(requests, signer, {
+        signatureStorage: config.signatureStorage || this.defaultStorage,
+        signal: config.signal,
+      });
+    }
+
+    return this.decryptNow(requests, signer, config);
+  }
+
+  /**
+   * Sign (or load the signature) and decrypt validated requests
+   */
+  private async decryptNow(
+    requests: DecryptionRequest[],
+    signer: FhevmTypedDataSigner,
+    config: DecryptionConfig
+  ): Promise<DecryptionResults> {
     // Extract unique contract addresses
     const uniqueAddresses = Array.from(
       new Set(requests.map((r) => r.contractAddress))
@@ -122,12 +372,15 @@ export class DecryptionManager {
       const { publicKey, privateKey } =
         config.keypair || (this.instance as any).generateKeypair();
 
-      signature = await FhevmDecryptionSignature.new(
-        this.instance,
-        uniqueAddresses,
-        publicKey,
-        privateKey,
-        signer
+      signature = await raceWithSignal(
+        FhevmDecryptionSignature.new(
+          this.instance,
+          uniqueAddresses,
+          publicKey,
+          privateKey,
+          signer
+        ),
+        config.signal
       );
 
       if (signature) {
@@ -139,12 +392,15 @@ export class DecryptionManager {
       }
     } else {
       // Try to load from cache first
-      signature = await FhevmDecryptionSignature.loadOrSign(
-        this.instance,
-        uniqueAddresses,
-        signer,
-        storage,
-        config.keypair
+      signature = await raceWithSignal(
+        FhevmDecryptionSignature.loadOrSign(
+          this.instance,
+          uniqueAddresses,
+          signer,
+          storage,
+          config.keypair
+        ),
+        config.signal
       );
     }
 
@@ -157,22 +413,28 @@ export class DecryptionManager {
 
     // Perform decryption
     try {
-      const results = await this.instance.userDecrypt(
-        requests.map((r) => ({
-          handle: r.handle,
-          contractAddress: r.contractAddress,
-        })),
-        signature.privateKey,
-        signature.publicKey,
-        signature.signature,
-        signature.contractAddresses,
-        signature.userAddress,
-        signature.startTimestamp,
-        signature.durationDays
+      const results = await this.runRelayerCall("decrypt", () =>
+        this.instance.userDecrypt(
+          requests.map((r) => ({
+            handle: r.handle,
+            contractAddress: r.contractAddress,
+          })),
+          signature.privateKey,
+          signature.publicKey,
+          signature.signature,
+          signature.contractAddresses,
+          signature.userAddress,
+          signature.startTimestamp,
+          signature.durationDays
+        ),
+        config.signal
       );
 
-      return results;
+      return normalizeDecryptionResults(results);
     } catch (error) {
+      if (error instanceof FhevmTimeoutError || error instanceof FhevmAbortError) {
+        throw error;
+      }
       throw new DecryptionError(
         "DECRYPT_FAILED",
         "Decryption operation failed",
@@ -188,14 +450,14 @@ export class DecryptionManager {
    *
    * @param handle - Encrypted handle
    * @param contractAddress - Contract address
-   * @param signer - Ethers signer
+   * @param signer - EIP-712 signer
    * @param config - Optional configuration
    * @returns Decrypted value
    */
   async decryptSingle(
     handle: string,
     contractAddress: `0x${string}`,
-    signer: JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
     config: DecryptionConfig = {}
   ): Promise<DecryptionResult> {
     const results = await this.decrypt(
@@ -204,7 +466,7 @@ export class DecryptionManager {
       config
     );
 
-    const value = results[handle];
+    const value = results[FheHandle.key(handle)];
     if (value === undefined) {
       throw new DecryptionError(
         "DECRYPT_NOT_FOUND",
@@ -222,14 +484,14 @@ export class DecryptionManager {
    *
    * @param handles - Array of encrypted handles
    * @param contractAddress - Contract address
-   * @param signer - Ethers signer
+   * @param signer - EIP-712 signer
    * @param config - Optional configuration
    * @returns Map of decrypted values
    */
   async decryptBatch(
     handles: string[],
     contractAddress: `0x${string}`,
-    signer: JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
     config: DecryptionConfig = {}
   ): Promise<DecryptionResults> {
     const requests = handles.map((handle) => ({
@@ -247,13 +509,13 @@ export class DecryptionManager {
    * Useful when you know you'll need to decrypt multiple times.
    *
    * @param contractAddresses - Contract addresses to authorize
-   * @param signer - Ethers signer
+   * @param signer - EIP-712 signer
    * @param storage - Optional storage (uses default if not provided)
    * @returns Created signature
    */
   async createSignature(
     contractAddresses: `0x${string}`[],
-    signer: JsonRpcSigner,
+    signer: FhevmTypedDataSigner,
     storage?: GenericStringStorage
   ): Promise<FhevmDecryptionSignature> {
     const sig = await FhevmDecryptionSignature.loadOrSign(
@@ -328,9 +590,11 @@ export class DecryptionManager {
    * It ONLY works on values marked as publicly decryptable in the smart contract.
    *
    * @param requests - Array of decryption requests
+   * @param options - Optional `signal` to cancel the operation
    * @returns Map of decrypted values keyed by handle
    *
    * @throws {DecryptionError} If public decryption fails
+   * @throws {FhevmAbortError} If the signal aborts
    *
    * @example
    * ```typescript
@@ -343,7 +607,8 @@ export class DecryptionManager {
    * ```
    */
   async publicDecrypt(
-    handles: (string | Uint8Array)[]
+    handles: (string | Uint8Array)[],
+    options: FhevmOperationOptions = {}
   ): Promise<DecryptionResults> {
     // Validate inputs
     if (handles.length === 0) {
@@ -352,9 +617,16 @@ export class DecryptionManager {
 
     // Perform public decryption (no signature needed)
     try {
-      const results = await this.instance.publicDecrypt(handles);
-      return results;
+      const results = await this.runRelayerCall(
+        "publicDecrypt",
+        () => this.instance.publicDecrypt(handles),
+        options.signal
+      );
+      return normalizeDecryptionResults(results);
     } catch (error) {
+      if (error instanceof FhevmTimeoutError || error instanceof FhevmAbortError) {
+        throw error;
+      }
       throw new DecryptionError(
         "PUBLIC_DECRYPT_FAILED",
         "Public decryption operation failed. Make sure the values are marked as publicly decryptable with FHE.makePubliclyDecryptable().",
@@ -369,15 +641,17 @@ export class DecryptionManager {
    * Convenience method for public decryption of a single encrypted handle.
    *
    * @param handle - Encrypted handle
+   * @param options - Optional `signal` to cancel the operation
    * @returns Decrypted value
    */
   async publicDecryptSingle(
-    handle: string | Uint8Array
+    handle: string | Uint8Array,
+    options: FhevmOperationOptions = {}
   ): Promise<DecryptionResult> {
-    const results = await this.publicDecrypt([handle]);
+    const results = await this.publicDecrypt([handle], options);
 
-    const handleKey = typeof handle === 'string' ? handle : handle.toString();
-    const value = results[handleKey] || results[handle as any];
+    const handleKey = FheHandle.key(handle);
+    const value = results[handleKey];
 
     if (value === undefined) {
       throw new DecryptionError(
@@ -395,12 +669,14 @@ export class DecryptionManager {
    * Alias for publicDecrypt for consistency with other methods.
    *
    * @param handles - Array of encrypted handles
+   * @param options - Optional `signal` to cancel the operation
    * @returns Map of decrypted values
    */
   async publicDecryptBatch(
-    handles: (string | Uint8Array)[]
+    handles: (string | Uint8Array)[],
+    options: FhevmOperationOptions = {}
   ): Promise<DecryptionResults> {
-    return this.publicDecrypt(handles);
+    return this.publicDecrypt(handles, options);
   }
 
   /**
@@ -425,6 +701,8 @@ export class DecryptionManager {
         );
       }
     }
+
+    checkDecryptionRequestTypes(requests);
   }
 }
 
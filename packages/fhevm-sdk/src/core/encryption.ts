@@ -4,6 +4,8 @@
  */
 
 import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import { withRetry, type RetryPolicy } from "./retry";
+import { fromBase64, toBase64 } from "../internal/base64";
 
 /**
  * FHE data types supported by FHEVM
@@ -156,10 +158,159 @@ export function buildParamsFromAbi(
   });
 }
 
+/**
+ * Encryption of the encrypted arguments of one contract call
+ */
+export interface EncryptedCallPlan {
+  /** Add every encrypted argument to the input, in parameter order */
+  build(input: RelayerEncryptedInput): void;
+
+  /** Call arguments with handles and the input proof in place */
+  toArgs(enc: EncryptionResult): unknown[];
+}
+
+function isExternalEncryptedType(internalType: unknown): internalType is ExternalEncryptedType {
+  return typeof internalType === "string" && internalType.startsWith("externalE");
+}
+
+/**
+ * Index of the input proof parameter: the `bytes` parameter named like a
+ * proof, else the first `bytes` parameter after the encrypted ones
+ */
+function findProofIndex(inputs: any[]): number {
+  const named = inputs.findIndex(
+    (input) => input.type === "bytes" && /proof/i.test(input.name ?? "")
+  );
+  if (named !== -1) {
+    return named;
+  }
+  const lastEncrypted = inputs.map((input) => isExternalEncryptedType(input.internalType)).lastIndexOf(true);
+  return inputs.findIndex((input, index) => index > lastEncrypted && input.type === "bytes");
+}
+
+/**
+ * FHE data type encrypted by the input method of an external encrypted type
+ */
+function toFHEDataType(externalType: ExternalEncryptedType): FHEDataType {
+  const method = getEncryptionMethod(externalType);
+  return (Object.keys(FHE_TYPE_TO_METHOD) as FHEDataType[]).find(
+    (type) => FHE_TYPE_TO_METHOD[type] === method
+  );
+}
+
+/**
+ * Plan the encryption of a contract call from its ABI
+ *
+ * Parameters with an `externalE*` internal type are encrypted together into
+ * one input; the others are passed through. `args` holds one value per
+ * parameter except the input proof.
+ *
+ * @throws {Error} If the function is not in the ABI, no overload or more than
+ * one overload takes `args.length` arguments, or it takes encrypted parameters
+ * but no input proof
+ * @throws {EncryptionValidationError} If an encrypted argument is invalid for
+ * its type; `index` is its index in `args`
+ */
+export function planEncryptedCall(
+  abi: any[],
+  functionName: string,
+  args: readonly unknown[]
+): EncryptedCallPlan {
+  const candidates = abi.filter(
+    (item: any) => item.type === "function" && item.name === functionName
+  );
+  if (candidates.length === 0) {
+    throw new Error(`Function ABI not found for ${functionName}`);
+  }
+
+  // Overloads are told apart by their number of arguments
+  const plans = candidates.map((fn: any) => {
+    const inputs: any[] = fn.inputs ?? [];
+    const encrypted = inputs.some((input) => isExternalEncryptedType(input.internalType));
+    const proofIndex = encrypted ? findProofIndex(inputs) : -1;
+    const argCount = inputs.length - (proofIndex === -1 ? 0 : 1);
+    return { inputs, encrypted, proofIndex, argCount };
+  });
+  const matching = plans.filter(({ argCount }) => argCount === args.length);
+  if (matching.length === 0) {
+    const expected = plans.map(({ argCount }) => argCount).join(" or ");
+    throw new Error(
+      `${functionName} takes ${expected} arguments besides the input proof, got ${args.length}`
+    );
+  }
+  if (matching.length > 1) {
+    throw new Error(
+      `${functionName} has ${matching.length} overloads taking ${args.length} arguments; ` +
+        `pass an ABI with only the one to call`
+    );
+  }
+
+  const { inputs, encrypted, proofIndex } = matching[0];
+  if (encrypted && proofIndex === -1) {
+    throw new Error(`${functionName} takes encrypted parameters but no bytes input proof`);
+  }
+
+  // Argument index of each parameter (the proof has none)
+  const argIndex = (paramIndex: number) =>
+    proofIndex !== -1 && paramIndex > proofIndex ? paramIndex - 1 : paramIndex;
+
+  const encryptedArgs = inputs.flatMap((param, index) => {
+    if (!isExternalEncryptedType(param.internalType)) {
+      return [];
+    }
+    const type = toFHEDataType(param.internalType);
+    const position = argIndex(index);
+    const value = args[position] as EncryptableValue;
+    if (!validateEncryptionValue(value, type)) {
+      throw new EncryptionValidationError(
+        value,
+        type,
+        `Invalid value for argument ${position} of ${functionName} (${type}): ${String(value)}`,
+        position
+      );
+    }
+    return [{ value, type }];
+  });
+
+  return {
+    build(input) {
+      const builder = new EncryptionBuilder(input);
+      for (const { value, type } of encryptedArgs) {
+        builder.add(value, type);
+      }
+    },
+
+    toArgs(enc) {
+      let handleIndex = 0;
+      return inputs.map((param, index) => {
+        if (index === proofIndex) {
+          return toHex(enc.inputProof);
+        }
+        if (isExternalEncryptedType(param.internalType)) {
+          return toHex(enc.handles[handleIndex++]);
+        }
+        return args[argIndex(index)];
+      });
+    },
+  };
+}
+
+/**
+ * Encryption builder options
+ */
+export interface EncryptionBuilderOptions {
+  /** Retry policy for the relayer call made by `encrypt()` */
+  retry?: RetryPolicy;
+
+  /** Timeout for `encrypt()` in milliseconds, covering all attempts */
+  timeoutMs?: number;
+}
+
 /**
  * Type-safe encryption builder
  *
  * Provides a fluent interface for building encrypted inputs with type safety.
+ * Each value is validated when it is added (see `withInputValidation`).
  *
  * @example
  * ```typescript
@@ -176,9 +327,10 @@ export class EncryptionBuilder {
   private input: RelayerEncryptedInput;
 
   constructor(
-    private relayerInput: RelayerEncryptedInput
+    private relayerInput: RelayerEncryptedInput,
+    private options: EncryptionBuilderOptions = {}
   ) {
-    this.input = relayerInput;
+    this.input = withInputValidation(relayerInput);
   }
 
   /**
@@ -285,7 +437,11 @@ export class EncryptionBuilder {
    * Finalize and perform encryption
    */
   async encrypt(): Promise<EncryptionResult> {
-    const result = await this.input.encrypt();
+    const result = await withRetry(() => this.input.encrypt(), {
+      operation: "encrypt",
+      policy: this.options.retry,
+      timeoutMs: this.options.timeoutMs,
+    });
     return {
       handles: result.handles,
       inputProof: result.inputProof,
@@ -300,8 +456,46 @@ export class EncryptionBuilder {
   }
 }
 
+/**
+ * Encrypted bit width of each FHE data type, as counted by the relayer
+ */
+export const FHE_TYPE_BITS: Record<FHEDataType, number> = {
+  bool: 2,
+  uint8: 8,
+  uint16: 16,
+  uint32: 32,
+  uint64: 64,
+  uint128: 128,
+  uint256: 256,
+  address: 160,
+};
+
+/**
+ * Maximum number of encrypted bits in one input
+ */
+export const MAX_INPUT_BITS = 2048;
+
+/**
+ * Maximum number of values in one input
+ */
+export const MAX_INPUT_VALUES = 256;
+
+function isUint(value: EncryptableValue, bits: number): boolean {
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      return false;
+    }
+  } else if (typeof value !== "bigint") {
+    return false;
+  }
+  return BigInt(value) >= 0n && BigInt(value) < 2n ** BigInt(bits);
+}
+
 /**
  * Validate encryption input value for a given type
+ *
+ * Integers may be numbers (safe integers) or bigints; booleans also accept
+ * 0 and 1.
  */
 export function validateEncryptionValue(
   value: EncryptableValue,
@@ -309,46 +503,14 @@ export function validateEncryptionValue(
 ): boolean {
   switch (type) {
     case "bool":
-      return typeof value === "boolean";
+      return typeof value === "boolean" || (typeof value !== "string" && isUint(value, 1));
     case "uint8":
-      return (
-        typeof value === "number" &&
-        Number.isInteger(value) &&
-        value >= 0 &&
-        value <= 255
-      );
     case "uint16":
-      return (
-        typeof value === "number" &&
-        Number.isInteger(value) &&
-        value >= 0 &&
-        value <= 65535
-      );
     case "uint32":
-      return (
-        typeof value === "number" &&
-        Number.isInteger(value) &&
-        value >= 0 &&
-        value <= 4294967295
-      );
     case "uint64":
-      return (
-        (typeof value === "number" || typeof value === "bigint") &&
-        BigInt(value) >= 0n &&
-        BigInt(value) <= 18446744073709551615n
-      );
     case "uint128":
-      return (
-        (typeof value === "number" || typeof value === "bigint") &&
-        BigInt(value) >= 0n &&
-        BigInt(value) <= (2n ** 128n - 1n)
-      );
     case "uint256":
-      return (
-        (typeof value === "number" || typeof value === "bigint") &&
-        BigInt(value) >= 0n &&
-        BigInt(value) <= (2n ** 256n - 1n)
-      );
+      return isUint(value, FHE_TYPE_BITS[type]);
     case "address":
       return (
         typeof value === "string" &&
@@ -359,6 +521,13 @@ export function validateEncryptionValue(
   }
 }
 
+/**
+ * Why a value was rejected
+ * - `INVALID_VALUE`: wrong type or out of range
+ * - `BIT_LIMIT_EXCEEDED`: the input would exceed `MAX_INPUT_BITS`
+ */
+export type EncryptionValidationReason = "INVALID_VALUE" | "BIT_LIMIT_EXCEEDED";
+
 /**
  * Error thrown when encryption validation fails
  */
@@ -366,7 +535,10 @@ export class EncryptionValidationError extends Error {
   constructor(
     public value: EncryptableValue,
     public type: FHEDataType,
-    message?: string
+    message?: string,
+    /** Position of the value in the encrypted input */
+    public index?: number,
+    public reason: EncryptionValidationReason = "INVALID_VALUE"
   ) {
     super(
       message ||
@@ -375,3 +547,547 @@ export class EncryptionValidationError extends Error {
     this.name = "EncryptionValidationError";
   }
 }
+
+const METHOD_TO_FHE_TYPE = Object.fromEntries(
+  Object.entries(FHE_TYPE_TO_METHOD).map(([type, method]) => [method, type])
+) as Record<string, FHEDataType>;
+
+const VALIDATED_INPUT = Symbol("fhevm.validatedInput");
+
+/**
+ * Validate every value added to `input` as soon as it is added
+ *
+ * Values of the wrong type or range, and values that would take the input
+ * past `MAX_INPUT_BITS`, throw `EncryptionValidationError` with their index
+ * instead of failing later during proof generation. Inputs that are already
+ * validated are returned as is.
+ */
+export function withInputValidation(input: RelayerEncryptedInput): RelayerEncryptedInput {
+  if ((input as any)[VALIDATED_INPUT] === true) {
+    return input;
+  }
+
+  let index = 0;
+  let bits = 0;
+
+  const validated: RelayerEncryptedInput = new Proxy(input, {
+    get(target, prop, receiver) {
+      if (prop === VALIDATED_INPUT) {
+        return true;
+      }
+      const type = typeof prop === "string" ? METHOD_TO_FHE_TYPE[prop] : undefined;
+      const value = Reflect.get(target, prop, receiver);
+      if (!type) {
+        return typeof value === "function" ? value.bind(target) : value;
+      }
+
+      return (arg: EncryptableValue) => {
+        if (!validateEncryptionValue(arg, type)) {
+          throw new EncryptionValidationError(
+            arg,
+            type,
+            `Invalid ${type} value at index ${index}: ${String(arg)}`,
+            index,
+            "INVALID_VALUE"
+          );
+        }
+        if (bits + FHE_TYPE_BITS[type] > MAX_INPUT_BITS) {
+          throw new EncryptionValidationError(
+            arg,
+            type,
+            `Adding ${type} at index ${index} exceeds the ${MAX_INPUT_BITS}-bit limit of an input (${bits} bits used)`,
+            index,
+            "BIT_LIMIT_EXCEEDED"
+          );
+        }
+        value.call(target, arg);
+        index++;
+        bits += FHE_TYPE_BITS[type];
+        return validated;
+      };
+    },
+  });
+
+  return validated;
+}
+
+/**
+ * Named values to encrypt together, e.g. `{ amount: 'uint64', isBid: 'bool' }`
+ */
+export type EncryptionSchema = Record<string, FHEDataType>;
+
+/**
+ * Plain value accepted for an FHE data type
+ */
+export type EncryptableValueOf<T extends FHEDataType> = T extends "bool"
+  ? boolean
+  : T extends "address"
+    ? string
+    : T extends "uint8" | "uint16" | "uint32"
+      ? number
+      : number | bigint;
+
+/**
+ * Values of a schema, one per field
+ */
+export type EncryptionSchemaValues<S extends EncryptionSchema> = {
+  [K in keyof S]: EncryptableValueOf<S[K]>;
+};
+
+/**
+ * Encryption result with the handles named after the schema fields
+ */
+export interface SchemaEncryptionResult<S extends EncryptionSchema> {
+  handles: { [K in keyof S]: Uint8Array };
+  inputProof: Uint8Array;
+}
+
+/**
+ * Encryption of the values of a schema
+ */
+export interface EncryptedSchemaPlan<S extends EncryptionSchema> {
+  /** Add the values to the input, in schema field order */
+  build(input: RelayerEncryptedInput): void;
+
+  /** Name the handles of the encryption result */
+  toResult(enc: EncryptionResult): SchemaEncryptionResult<S>;
+}
+
+/**
+ * Validate the values of a schema and plan their encryption
+ *
+ * @throws {EncryptionValidationError} If a value is missing or invalid for its type
+ */
+export function planEncryptedSchema<S extends EncryptionSchema>(
+  schema: S,
+  values: EncryptionSchemaValues<S>
+): EncryptedSchemaPlan<S> {
+  const fields = Object.keys(schema) as (keyof S & string)[];
+
+  fields.forEach((field, index) => {
+    const type = schema[field];
+    const value = values[field] as EncryptableValue;
+    if (!validateEncryptionValue(value, type)) {
+      throw new EncryptionValidationError(
+        value,
+        type,
+        value === undefined
+          ? `Missing value for ${field} (${type})`
+          : `Invalid value for ${field} (${type}): ${String(value)}`,
+        index
+      );
+    }
+  });
+
+  return {
+    build(input) {
+      const builder = new EncryptionBuilder(input);
+      for (const field of fields) {
+        builder.add(values[field] as EncryptableValue, schema[field]);
+      }
+    },
+
+    toResult(enc) {
+      const handles = {} as { [K in keyof S]: Uint8Array };
+      fields.forEach((field, index) => {
+        handles[field] = enc.handles[index];
+      });
+      return { handles, inputProof: enc.inputProof };
+    },
+  };
+}
+
+/**
+ * Value to encrypt with its FHE type
+ */
+export interface TypedEncryptableValue {
+  value: EncryptableValue;
+  type: FHEDataType;
+}
+
+/**
+ * Where a value of a batch ended up
+ */
+export interface BatchHandleLocation {
+  /** Index of the chunk (input) */
+  chunk: number;
+  /** Index of the handle within the chunk */
+  position: number;
+}
+
+/**
+ * Values of a batch packed into inputs
+ */
+export interface EncryptionBatchPlan {
+  /** Original indices of the values of each chunk, in input order */
+  chunks: number[][];
+  /** Location of each value, by original index */
+  indexMap: BatchHandleLocation[];
+}
+
+/**
+ * Validate a batch and pack it into as few inputs as possible within
+ * `MAX_INPUT_BITS` and `MAX_INPUT_VALUES`
+ *
+ * Values are placed largest first into the first chunk with room for them
+ * (first-fit decreasing); within a chunk they keep their original order.
+ *
+ * @throws {EncryptionValidationError} If a value is invalid; `index` is its index in `values`
+ */
+export function planEncryptionBatch(values: readonly TypedEncryptableValue[]): EncryptionBatchPlan {
+  values.forEach(({ value, type }, index) => {
+    if (!validateEncryptionValue(value, type)) {
+      throw new EncryptionValidationError(
+        value,
+        type,
+        `Invalid ${type} value at index ${index}: ${String(value)}`,
+        index
+      );
+    }
+  });
+
+  const order = values
+    .map((_, index) => index)
+    .sort((a, b) => FHE_TYPE_BITS[values[b].type] - FHE_TYPE_BITS[values[a].type] || a - b);
+
+  const bins: { indices: number[]; bits: number }[] = [];
+  for (const index of order) {
+    const bits = FHE_TYPE_BITS[values[index].type];
+    let bin = bins.find(
+      (b) => b.bits + bits <= MAX_INPUT_BITS && b.indices.length < MAX_INPUT_VALUES
+    );
+    if (!bin) {
+      bin = { indices: [], bits: 0 };
+      bins.push(bin);
+    }
+    bin.indices.push(index);
+    bin.bits += bits;
+  }
+
+  const chunks = bins.map((bin) => bin.indices.sort((a, b) => a - b));
+  const indexMap: BatchHandleLocation[] = new Array(values.length);
+  chunks.forEach((indices, chunk) => {
+    indices.forEach((index, position) => {
+      indexMap[index] = { chunk, position };
+    });
+  });
+
+  return { chunks, indexMap };
+}
+
+/**
+ * Current encryption envelope format version
+ */
+export const ENCRYPTION_ENVELOPE_VERSION = 1;
+
+const ENVELOPE_JSON_FORMAT = "fhevm-encrypted-input";
+const ENVELOPE_BINARY_MAGIC = [0x46, 0x48, 0x45, 0x49]; // "FHEI"
+const HANDLE_LENGTH = 32;
+
+/**
+ * Encryption result with what it was encrypted for, so it can be stored or
+ * sent to another process and checked before it is submitted
+ */
+export interface EncryptionEnvelope {
+  version: typeof ENCRYPTION_ENVELOPE_VERSION;
+
+  /** Chain the input was encrypted for */
+  chainId: number;
+
+  /** Contract the input is bound to */
+  contractAddress: `0x${string}`;
+
+  /** Account the input is bound to (the transaction sender) */
+  userAddress: `0x${string}`;
+
+  /** Declared FHE type of each handle */
+  types: FHEDataType[];
+
+  /** When the input was encrypted (Unix ms) */
+  createdAt: number;
+
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+/**
+ * Serialized envelope formats: JSON with base64 bytes, or compact binary
+ */
+export type EncryptionEnvelopeFormat = "json" | "binary";
+
+/**
+ * Error thrown when an envelope cannot be read or does not match its use
+ */
+export class EncryptionEnvelopeError extends Error {
+  constructor(
+    public code: "INVALID_ENVELOPE" | "UNSUPPORTED_VERSION" | "MISMATCH",
+    message: string
+  ) {
+    super(message);
+    this.name = "EncryptionEnvelopeError";
+  }
+}
+
+type EnvelopeHeader = {
+  chainId: number;
+  contractAddress: `0x${string}`;
+  userAddress: `0x${string}`;
+  types: FHEDataType[];
+  createdAt: number;
+  inputProofLength: number;
+};
+
+const FHE_DATA_TYPES = Object.keys(FHE_TYPE_TO_METHOD);
+
+/**
+ * Wrap an encryption result in an envelope
+ *
+ * @throws {EncryptionEnvelopeError} If the number of types and handles differ
+ */
+export function createEncryptionEnvelope(
+  result: EncryptionResult,
+  metadata: {
+    chainId: number;
+    contractAddress: `0x${string}`;
+    userAddress: `0x${string}`;
+    types: FHEDataType[];
+    createdAt?: number;
+  }
+): EncryptionEnvelope {
+  const envelope: EncryptionEnvelope = {
+    version: ENCRYPTION_ENVELOPE_VERSION,
+    chainId: metadata.chainId,
+    contractAddress: metadata.contractAddress,
+    userAddress: metadata.userAddress,
+    types: [...metadata.types],
+    createdAt: metadata.createdAt ?? Date.now(),
+    handles: result.handles,
+    inputProof: result.inputProof,
+  };
+  assertEnvelope(envelope);
+  return envelope;
+}
+
+function assertEnvelope(envelope: Omit<EncryptionEnvelope, "version">): void {
+  if (
+    typeof envelope.chainId !== "number" ||
+    typeof envelope.contractAddress !== "string" ||
+    typeof envelope.userAddress !== "string" ||
+    typeof envelope.createdAt !== "number" ||
+    !Array.isArray(envelope.types) ||
+    envelope.types.some((type) => !FHE_DATA_TYPES.includes(type))
+  ) {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Incomplete encryption envelope");
+  }
+  if (envelope.types.length !== envelope.handles.length) {
+    throw new EncryptionEnvelopeError(
+      "INVALID_ENVELOPE",
+      `Encryption envelope declares ${envelope.types.length} types for ${envelope.handles.length} handles`
+    );
+  }
+  if (envelope.handles.some((handle) => handle.length !== HANDLE_LENGTH)) {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Encryption envelope handles must be 32 bytes");
+  }
+}
+
+function assertEnvelopeVersion(
+  version: unknown
+): asserts version is typeof ENCRYPTION_ENVELOPE_VERSION {
+  if (version !== ENCRYPTION_ENVELOPE_VERSION) {
+    throw new EncryptionEnvelopeError(
+      "UNSUPPORTED_VERSION",
+      `Unsupported encryption envelope version ${String(version)}`
+    );
+  }
+}
+
+/**
+ * Serialize an envelope
+ *
+ * @example
+ * ```typescript
+ * // Backend: encrypt and hand over
+ * const encrypted = await client.encrypt((input) => input.add64(100n), config);
+ * const envelope = createEncryptionEnvelope(encrypted, { ...config, chainId, types: ['uint64'] });
+ * res.json(JSON.parse(serializeEncryptionEnvelope(envelope)));
+ * ```
+ */
+export function serializeEncryptionEnvelope(envelope: EncryptionEnvelope, format?: "json"): string;
+export function serializeEncryptionEnvelope(envelope: EncryptionEnvelope, format: "binary"): Uint8Array;
+export function serializeEncryptionEnvelope(
+  envelope: EncryptionEnvelope,
+  format: EncryptionEnvelopeFormat = "json"
+): string | Uint8Array {
+  if (format === "json") {
+    return JSON.stringify({
+      format: ENVELOPE_JSON_FORMAT,
+      version: envelope.version,
+      chainId: envelope.chainId,
+      contractAddress: envelope.contractAddress,
+      userAddress: envelope.userAddress,
+      types: envelope.types,
+      createdAt: envelope.createdAt,
+      handles: envelope.handles.map(toBase64),
+      inputProof: toBase64(envelope.inputProof),
+    });
+  }
+
+  const header: EnvelopeHeader = {
+    chainId: envelope.chainId,
+    contractAddress: envelope.contractAddress,
+    userAddress: envelope.userAddress,
+    types: envelope.types,
+    createdAt: envelope.createdAt,
+    inputProofLength: envelope.inputProof.length,
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const handlesStart = 9 + headerBytes.length;
+  const proofStart = handlesStart + envelope.handles.length * HANDLE_LENGTH;
+
+  // magic (4) | version (1) | header length (4, big-endian) | header | handles (32 each) | proof
+  const out = new Uint8Array(proofStart + envelope.inputProof.length);
+  out.set(ENVELOPE_BINARY_MAGIC, 0);
+  out[4] = envelope.version;
+  new DataView(out.buffer).setUint32(5, headerBytes.length);
+  out.set(headerBytes, 9);
+  envelope.handles.forEach((handle, i) => out.set(handle, handlesStart + i * HANDLE_LENGTH));
+  out.set(envelope.inputProof, proofStart);
+  return out;
+}
+
+function parseBinaryEnvelope(bytes: Uint8Array): EncryptionEnvelope {
+  if (bytes.length < 9 || ENVELOPE_BINARY_MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Not a binary encryption envelope");
+  }
+  assertEnvelopeVersion(bytes[4]);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = view.getUint32(5);
+  let header: EnvelopeHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(9, 9 + headerLength)));
+  } catch {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Corrupt encryption envelope header");
+  }
+  if (!Array.isArray(header?.types)) {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Incomplete encryption envelope");
+  }
+
+  const handlesStart = 9 + headerLength;
+  const proofStart = handlesStart + header.types.length * HANDLE_LENGTH;
+  if (proofStart + header.inputProofLength !== bytes.length) {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Truncated encryption envelope");
+  }
+
+  const envelope: EncryptionEnvelope = {
+    version: ENCRYPTION_ENVELOPE_VERSION,
+    chainId: header.chainId,
+    contractAddress: header.contractAddress,
+    userAddress: header.userAddress,
+    types: header.types,
+    createdAt: header.createdAt,
+    handles: header.types.map((_, i) =>
+      bytes.slice(handlesStart + i * HANDLE_LENGTH, handlesStart + (i + 1) * HANDLE_LENGTH)
+    ),
+    inputProof: bytes.slice(proofStart),
+  };
+  assertEnvelope(envelope);
+  return envelope;
+}
+
+function parseJsonEnvelope(json: any): EncryptionEnvelope {
+  if (json?.format !== ENVELOPE_JSON_FORMAT) {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Not a JSON encryption envelope");
+  }
+  assertEnvelopeVersion(json.version);
+  if (
+    !Array.isArray(json.handles) ||
+    json.handles.some((handle: unknown) => typeof handle !== "string") ||
+    typeof json.inputProof !== "string"
+  ) {
+    throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Incomplete encryption envelope");
+  }
+
+  const envelope: EncryptionEnvelope = {
+    version: ENCRYPTION_ENVELOPE_VERSION,
+    chainId: json.chainId,
+    contractAddress: json.contractAddress,
+    userAddress: json.userAddress,
+    types: json.types,
+    createdAt: json.createdAt,
+    handles: json.handles.map(fromBase64),
+    inputProof: fromBase64(json.inputProof),
+  };
+  assertEnvelope(envelope);
+  return envelope;
+}
+
+/**
+ * Read an envelope in either format
+ *
+ * @param data - JSON string or parsed object, or a binary envelope
+ * @throws {EncryptionEnvelopeError} If the data is not an envelope or has an unsupported version
+ */
+export function deserializeEncryptionEnvelope(
+  data: string | Uint8Array | ArrayBuffer | object
+): EncryptionEnvelope {
+  if (data instanceof ArrayBuffer) {
+    return parseBinaryEnvelope(new Uint8Array(data));
+  }
+  if (data instanceof Uint8Array) {
+    return parseBinaryEnvelope(data);
+  }
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      throw new EncryptionEnvelopeError("INVALID_ENVELOPE", "Encryption envelope is not valid JSON");
+    }
+  }
+  return parseJsonEnvelope(data);
+}
+
+/**
+ * Check that an envelope was encrypted for this contract, sender and
+ * chain (and, if given, these types) before submitting it. The relayer
+ * rejects inputs bound to another contract or sender, so this fails early
+ * with a clear error.
+ *
+ * @throws {EncryptionEnvelopeError} With code `MISMATCH`
+ *
+ * @example
+ * ```typescript
+ * const envelope = deserializeEncryptionEnvelope(await queue.pop());
+ * verifyEnvelopeMatches(envelope, { contractAddress, userAddress, chainId: 11155111, types: ['uint64'] });
+ * await contract.deposit(envelope.handles[0], envelope.inputProof);
+ * ```
+ */
+export function verifyEnvelopeMatches(
+  envelope: EncryptionEnvelope,
+  config: {
+    contractAddress: `0x${string}`;
+    userAddress: `0x${string}`;
+    chainId?: number;
+    types?: FHEDataType[];
+  }
+): void {
+  const mismatches: string[] = [];
+  if (envelope.contractAddress.toLowerCase() !== config.contractAddress.toLowerCase()) {
+    mismatches.push(`contract ${envelope.contractAddress} (expected ${config.contractAddress})`);
+  }
+  if (envelope.userAddress.toLowerCase() !== config.userAddress.toLowerCase()) {
+    mismatches.push(`user ${envelope.userAddress} (expected ${config.userAddress})`);
+  }
+  if (config.chainId !== undefined && envelope.chainId !== config.chainId) {
+    mismatches.push(`chain ${envelope.chainId} (expected ${config.chainId})`);
+  }
+  if (config.types && envelope.types.join(",") !== config.types.join(",")) {
+    mismatches.push(`types ${envelope.types.join(", ")} (expected ${config.types.join(", ")})`);
+  }
+  if (mismatches.length > 0) {
+    throw new EncryptionEnvelopeError(
+      "MISMATCH",
+      `Encryption envelope was encrypted for another ${mismatches.join(", ")}`
+    );
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Typed event emitter and FHEVM client events
+ * @module @fhevm-sdk/core/events
+ */
+
+import type { FHEVMClientStatus } from "./client";
+import type { FhevmInitPhase } from "../internal/fhevm";
+
+export type { FhevmInitPhase } from "../internal/fhevm";
+
+/**
+ * Listener for a single event type
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ ping: { at: number } }>();
+ * const off = emitter.on('ping', ({ at }) => console.log(at));
+ * emitter.emit('ping', { at: Date.now() });
+ * off();
+ * ```
+ */
+export class TypedEventEmitter<Events extends object> {
+  #listeners = new Map<keyof Events, Set<EventListener<any>>>();
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.#listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.#listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @returns Unsubscribe function
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.#listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Emit an event. A throwing listener does not prevent the others from running.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.#listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[FHEVM] Listener for "${String(event)}" threw:`, error);
+      }
+    }
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.#listeners.get(event)?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.#listeners.clear();
+  }
+}
+
+/**
+ * Operations tracked by the client event bus
+ */
+export type FHEVMOperation = "encrypt" | "decrypt" | "publicDecrypt";
+
+/**
+ * Events emitted by `FHEVMClient`
+ */
+export interface FHEVMClientEvents {
+  /** Client lifecycle status changed */
+  status: {
+    status: FHEVMClientStatus;
+  };
+
+  /** Initialization progressed to a new phase */
+  "init:phase": {
+    phase: FhevmInitPhase;
+    /** Milliseconds since `init()` started */
+    elapsedMs: number;
+  };
+
+  /** An operation started */
+  "operation:start": {
+    operation: FHEVMOperation;
+    /** Identifier shared by all events of the same operation */
+    id: number;
+    /** Unix timestamp in milliseconds */
+    startedAt: number;
+  };
+
+  /** A relayer attempt of an operation started */
+  "operation:attempt": {
+    operation: FHEVMOperation;
+    id: number;
+    /** Attempt number, starting at 1 */
+    attempt: number;
+  };
+
+  /** A relayer attempt failed and will be retried */
+  "operation:retry": {
+    operation: FHEVMOperation;
+    id: number;
+    /** Attempt that failed */
+    attempt: number;
+    error: Error;
+    /** Delay before the next attempt */
+    delayMs: number;
+  };
+
+  /** An operation completed successfully */
+  "operation:success": {
+    operation: FHEVMOperation;
+    id: number;
+    durationMs: number;
+  };
+
+  /** An operation failed */
+  "operation:error": {
+    operation: FHEVMOperation;
+    id: number;
+    durationMs: number;
+    error: Error;
+  };
+
+  /** The provider switched chains (requires `watchProvider`) */
+  "provider:chainChanged": {
+    chainId: number;
+  };
+
+  /** The provider's accounts changed (requires `watchProvider`) */
+  "provider:accountsChanged": {
+    accounts: string[];
+  };
+
+  /** The provider disconnected (requires `watchProvider`) */
+  "provider:disconnect": {
+    error?: Error;
+  };
+
+  /**
+   * The network's FHE public key or CRS changed since it was cached. The
+   * new material is downloaded during the same `init()`.
+   */
+  "key:rotated": {
+    chainId: number;
+    aclAddress: `0x${string}`;
+    /** Cached ids */
+    previous: { publicKeyId?: string; publicParamsId?: string };
+    /** Ids published by the relayer */
+    current: { publicKeyIds: string[]; publicParamsId?: string };
+  };
+
+  /**
+   * `thread` was set but WASM threads are not available; the SDK runs
+   * single-threaded
+   */
+  "sdk:threadsUnavailable": {
+    requestedThreads: number;
+    sharedArrayBuffer: boolean;
+    crossOriginIsolated: boolean;
+    reason: string;
+  };
+}
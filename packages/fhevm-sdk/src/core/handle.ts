@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Ciphertext handles
+ * @module @fhevm-sdk/core/handle
+ *
+ * A handle is 32 bytes:
+ *
+ * | Bytes | Content                                           |
+ * |-------|---------------------------------------------------|
+ * | 0-20  | Hash of the ciphertext                            |
+ * | 21    | Index in its encrypted input (0xff when computed) |
+ * | 22-29 | Chain ID (uint64, big-endian)                     |
+ * | 30    | FHE type                                          |
+ * | 31    | Handle version                                    |
+ */
+
+/**
+ * Encrypted types, by their type byte
+ */
+export const FHE_TYPES = [
+  "ebool",
+  "euint4",
+  "euint8",
+  "euint16",
+  "euint32",
+  "euint64",
+  "euint128",
+  "eaddress",
+  "euint256",
+] as const;
+
+/**
+ * Encrypted type of a handle
+ */
+export type FheType = (typeof FHE_TYPES)[number];
+
+const HANDLE_LENGTH = 32;
+const COMPUTED_INDEX = 0xff;
+
+/**
+ * Error thrown when a value is not a handle
+ */
+export class FheHandleError extends Error {
+  constructor(
+    public code: "INVALID_HANDLE",
+    message: string
+  ) {
+    super(message);
+    this.name = "FheHandleError";
+  }
+}
+
+/**
+ * Parsed ciphertext handle
+ *
+ * @example
+ * ```typescript
+ * const handle = FheHandle.from('0x830a61b3...00aa36a70500');
+ * handle.chainId;  // 11155111
+ * handle.fheType;  // 'euint64'
+ * handle.index;    // 0, or undefined for computed handles
+ * results[handle.hex];
+ * ```
+ */
+export class FheHandle {
+  /** 0x-prefixed lowercase hex, the key of `DecryptionResults` */
+  readonly hex: `0x${string}`;
+
+  private constructor(readonly bytes: Uint8Array) {
+    this.hex = `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+  }
+
+  /**
+   * Parse a handle from hex (with or without 0x, any case) or bytes
+   *
+   * @throws {FheHandleError} If the value is not 32 bytes
+   */
+  static from(value: string | Uint8Array | FheHandle): FheHandle {
+    if (value instanceof FheHandle) {
+      return value;
+    }
+    if (value instanceof Uint8Array) {
+      if (value.length !== HANDLE_LENGTH) {
+        throw new FheHandleError("INVALID_HANDLE", `Handle must be 32 bytes, got ${value.length}`);
+      }
+      return new FheHandle(new Uint8Array(value));
+    }
+    if (typeof value === "string") {
+      const hex = value.startsWith("0x") || value.startsWith("0X") ? value.slice(2) : value;
+      if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new FheHandleError("INVALID_HANDLE", `Not a 32-byte hex handle: ${value}`);
+      }
+      const bytes = new Uint8Array(HANDLE_LENGTH);
+      for (let i = 0; i < HANDLE_LENGTH; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+      }
+      return new FheHandle(bytes);
+    }
+    throw new FheHandleError("INVALID_HANDLE", `Not a handle: ${String(value)}`);
+  }
+
+  /**
+   * Whether a value can be parsed as a handle
+   */
+  static isHandle(value: unknown): value is string | Uint8Array | FheHandle {
+    try {
+      FheHandle.from(value as string);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Normalized `DecryptionResults` key of a handle. Values that are not
+   * handles are only lowercased.
+   */
+  static key(value: string | Uint8Array | FheHandle): string {
+    try {
+      return FheHandle.from(value).hex;
+    } catch {
+      return typeof value === "string" ? value.toLowerCase() : String(value);
+    }
+  }
+
+  /** Hash of the ciphertext (21 bytes) */
+  get hash(): Uint8Array {
+    return this.bytes.slice(0, 21);
+  }
+
+  /** Whether the handle is the result of an FHE operation rather than an input */
+  get isComputed(): boolean {
+    return this.bytes[21] === COMPUTED_INDEX;
+  }
+
+  /** Position in its encrypted input, undefined for computed handles */
+  get index(): number | undefined {
+    return this.isComputed ? undefined : this.bytes[21];
+  }
+
+  /** Chain the ciphertext lives on */
+  get chainId(): number {
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset, HANDLE_LENGTH);
+    return Number(view.getBigUint64(22));
+  }
+
+  /** Raw FHE type byte */
+  get typeCode(): number {
+    return this.bytes[30];
+  }
+
+  /** Encrypted type, undefined for type bytes this SDK does not know */
+  get fheType(): FheType | undefined {
+    return FHE_TYPES[this.typeCode];
+  }
+
+  /** Handle format version */
+  get version(): number {
+    return this.bytes[31];
+  }
+
+  /**
+   * Whether this is the zero handle, which contracts return for encrypted
+   * values that were never set
+   */
+  get isZero(): boolean {
+    return this.bytes.every((b) => b === 0);
+  }
+
+  equals(other: string | Uint8Array | FheHandle): boolean {
+    return FheHandle.key(other) === this.hex;
+  }
+
+  toString(): string {
+    return this.hex;
+  }
+
+  toJSON(): string {
+    return this.hex;
+  }
+}
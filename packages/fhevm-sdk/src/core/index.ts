@@ -4,28 +4,80 @@
  */
 
 export * from "./client";
+export * from "./networks";
+export * from "./events";
+export * from "./manager";
+export * from "./retry";
+export * from "./abort";
+export * from "./batching";
+export * from "./signer";
+export * from "./keyBundle";
+export * from "./workerPool";
+export * from "./threads";
+export * from "./sdkSource";
+export * from "./handle";
+export * from "./memoryInstance";
+export type { RelayerFetch } from "../internal/relayerTransport";
+export type { TypedDataHasher } from "../internal/typedData";
 export type {
   FHEDataType,
   ExternalEncryptedType,
   EncryptableValue,
   EncryptionBuilder,
-  EncryptionValidationError
+  EncryptionBuilderOptions,
+  EncryptionValidationReason,
+  EncryptedCallPlan,
+  EncryptionSchema,
+  EncryptableValueOf,
+  EncryptionSchemaValues,
+  SchemaEncryptionResult,
+  EncryptedSchemaPlan,
+  TypedEncryptableValue,
+  BatchHandleLocation,
+  EncryptionBatchPlan,
+  EncryptionEnvelope,
+  EncryptionEnvelopeFormat
 } from "./encryption";
 export {
   FHE_TYPE_TO_METHOD,
   getEncryptionMethod,
   toHex,
   buildParamsFromAbi,
-  validateEncryptionValue
+  planEncryptedCall,
+  planEncryptedSchema,
+  planEncryptionBatch,
+  validateEncryptionValue,
+  withInputValidation,
+  EncryptionValidationError,
+  FHE_TYPE_BITS,
+  MAX_INPUT_BITS,
+  MAX_INPUT_VALUES,
+  ENCRYPTION_ENVELOPE_VERSION,
+  EncryptionEnvelopeError,
+  createEncryptionEnvelope,
+  serializeEncryptionEnvelope,
+  deserializeEncryptionEnvelope,
+  verifyEnvelopeMatches
 } from "./encryption";
 export type {
   DecryptionResult,
   DecryptionResults,
   DecryptionConfig,
   DecryptionManager,
-  DecryptionError
+  DecryptionManagerOptions,
+  RelayerCallRunner,
+  DecryptionError,
+  FheValue,
+  TypedDecryptionRequest,
+  TypedDecryptionRequests,
+  DecryptedValues,
+  TypedDecryptionPlan
 } from "./decryption";
 export {
+  normalizeDecryptionResults,
+  decodeFheValue,
+  checkDecryptionRequestTypes,
+  planTypedDecryption,
   isDecryptionAuthorized,
   estimateDecryptionGas
 } from "./decryption";
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Offline FHE public key bundles
+ * @module @fhevm-sdk/core/keyBundle
+ *
+ * A bundle holds the FHE public key and CRS of one network with their ids.
+ * Ship it with the app (or from a CDN) and pass it as
+ * `FHEVMClientConfig.publicKeyBundle`: the key cache is seeded from it and
+ * the first instance is created without downloading the keys.
+ */
+
+import type { StoredPublicKey, StoredPublicParams } from "../storage/PublicKeyCache";
+import { fromBase64, toBase64 } from "../internal/base64";
+
+/**
+ * Current bundle format version
+ */
+export const PUBLIC_KEY_BUNDLE_VERSION = 1;
+
+const JSON_FORMAT = "fhevm-public-key-bundle";
+const BINARY_MAGIC = [0x46, 0x48, 0x4b, 0x42]; // "FHKB"
+
+/**
+ * FHE key material of one network
+ */
+export interface PublicKeyBundle {
+  version: typeof PUBLIC_KEY_BUNDLE_VERSION;
+
+  /** Host chain ID */
+  chainId: number;
+
+  /** ACL contract address of the network */
+  aclAddress: `0x${string}`;
+
+  /** When the keys were exported (Unix ms) */
+  createdAt: number;
+
+  publicKey: StoredPublicKey;
+  publicParams: StoredPublicParams;
+}
+
+/**
+ * Serialized bundle formats: JSON with base64 keys, or compact binary
+ */
+export type PublicKeyBundleFormat = "json" | "binary";
+
+/**
+ * Error thrown when a bundle cannot be read
+ */
+export class PublicKeyBundleError extends Error {
+  constructor(
+    public code: "INVALID_BUNDLE" | "UNSUPPORTED_VERSION",
+    message: string
+  ) {
+    super(message);
+    this.name = "PublicKeyBundleError";
+  }
+}
+
+type BundleHeader = {
+  chainId: number;
+  aclAddress: `0x${string}`;
+  createdAt: number;
+  publicKeyId: string;
+  publicParamsId: string;
+  publicKeyLength: number;
+  publicParamsLength: number;
+};
+
+/**
+ * Serialize a bundle
+ *
+ * @example
+ * ```typescript
+ * // Build step: export once and ship with the app
+ * const bundle = await client.exportPublicKeyBundle();
+ * await writeFile('public/fhevm-keys.bin', serializePublicKeyBundle(bundle, 'binary'));
+ * ```
+ */
+export function serializePublicKeyBundle(bundle: PublicKeyBundle, format?: "json"): string;
+export function serializePublicKeyBundle(bundle: PublicKeyBundle, format: "binary"): Uint8Array;
+export function serializePublicKeyBundle(
+  bundle: PublicKeyBundle,
+  format: PublicKeyBundleFormat = "json"
+): string | Uint8Array {
+  if (format === "json") {
+    return JSON.stringify({
+      format: JSON_FORMAT,
+      version: bundle.version,
+      chainId: bundle.chainId,
+      aclAddress: bundle.aclAddress,
+      createdAt: bundle.createdAt,
+      publicKey: { id: bundle.publicKey.publicKeyId, data: toBase64(bundle.publicKey.publicKey) },
+      publicParams: {
+        id: bundle.publicParams.publicParamsId,
+        data: toBase64(bundle.publicParams.publicParams),
+      },
+    });
+  }
+
+  const header: BundleHeader = {
+    chainId: bundle.chainId,
+    aclAddress: bundle.aclAddress,
+    createdAt: bundle.createdAt,
+    publicKeyId: bundle.publicKey.publicKeyId,
+    publicParamsId: bundle.publicParams.publicParamsId,
+    publicKeyLength: bundle.publicKey.publicKey.length,
+    publicParamsLength: bundle.publicParams.publicParams.length,
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+
+  // magic (4) | version (1) | header length (4, big-endian) | header | key | params
+  const out = new Uint8Array(
+    9 + headerBytes.length + header.publicKeyLength + header.publicParamsLength
+  );
+  out.set(BINARY_MAGIC, 0);
+  out[4] = bundle.version;
+  new DataView(out.buffer).setUint32(5, headerBytes.length);
+  out.set(headerBytes, 9);
+  out.set(bundle.publicKey.publicKey, 9 + headerBytes.length);
+  out.set(bundle.publicParams.publicParams, 9 + headerBytes.length + header.publicKeyLength);
+  return out;
+}
+
+function assertVersion(version: unknown): asserts version is typeof PUBLIC_KEY_BUNDLE_VERSION {
+  if (version !== PUBLIC_KEY_BUNDLE_VERSION) {
+    throw new PublicKeyBundleError(
+      "UNSUPPORTED_VERSION",
+      `Unsupported public key bundle version ${String(version)}`
+    );
+  }
+}
+
+function parseBinary(bytes: Uint8Array): PublicKeyBundle {
+  if (bytes.length < 9 || BINARY_MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new PublicKeyBundleError("INVALID_BUNDLE", "Not a binary public key bundle");
+  }
+  assertVersion(bytes[4]);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = view.getUint32(5);
+  let header: BundleHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(9, 9 + headerLength)));
+  } catch {
+    throw new PublicKeyBundleError("INVALID_BUNDLE", "Corrupt public key bundle header");
+  }
+
+  const keyStart = 9 + headerLength;
+  const paramsStart = keyStart + header.publicKeyLength;
+  if (paramsStart + header.publicParamsLength !== bytes.length) {
+    throw new PublicKeyBundleError("INVALID_BUNDLE", "Truncated public key bundle");
+  }
+
+  return {
+    version: PUBLIC_KEY_BUNDLE_VERSION,
+    chainId: header.chainId,
+    aclAddress: header.aclAddress,
+    createdAt: header.createdAt,
+    publicKey: {
+      publicKeyId: header.publicKeyId,
+      publicKey: bytes.slice(keyStart, paramsStart),
+    },
+    publicParams: {
+      publicParamsId: header.publicParamsId,
+      publicParams: bytes.slice(paramsStart),
+    },
+  };
+}
+
+function parseJson(json: any): PublicKeyBundle {
+  if (json?.format !== JSON_FORMAT) {
+    throw new PublicKeyBundleError("INVALID_BUNDLE", "Not a JSON public key bundle");
+  }
+  assertVersion(json.version);
+  if (
+    typeof json.chainId !== "number" ||
+    typeof json.aclAddress !== "string" ||
+    typeof json.publicKey?.id !== "string" ||
+    typeof json.publicKey?.data !== "string" ||
+    typeof json.publicParams?.id !== "string" ||
+    typeof json.publicParams?.data !== "string"
+  ) {
+    throw new PublicKeyBundleError("INVALID_BUNDLE", "Incomplete public key bundle");
+  }
+
+  return {
+    version: PUBLIC_KEY_BUNDLE_VERSION,
+    chainId: json.chainId,
+    aclAddress: json.aclAddress,
+    createdAt: typeof json.createdAt === "number" ? json.createdAt : 0,
+    publicKey: { publicKeyId: json.publicKey.id, publicKey: fromBase64(json.publicKey.data) },
+    publicParams: {
+      publicParamsId: json.publicParams.id,
+      publicParams: fromBase64(json.publicParams.data),
+    },
+  };
+}
+
+/**
+ * Read a bundle in either format
+ *
+ * @param data - JSON string or parsed object, binary bundle, or a `PublicKeyBundle`
+ * @throws {PublicKeyBundleError} If the data is not a bundle or has an unsupported version
+ */
+export function parsePublicKeyBundle(
+  data: string | Uint8Array | ArrayBuffer | object
+): PublicKeyBundle {
+  if ((data as PublicKeyBundle).publicKey?.publicKey instanceof Uint8Array) {
+    assertVersion((data as PublicKeyBundle).version);
+    return data as PublicKeyBundle;
+  }
+  if (data instanceof ArrayBuffer) {
+    return parseBinary(new Uint8Array(data));
+  }
+  if (data instanceof Uint8Array) {
+    return parseBinary(data);
+  }
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      throw new PublicKeyBundleError("INVALID_BUNDLE", "Public key bundle is not valid JSON");
+    }
+  }
+  return parseJson(data);
+}
@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Multi-chain FHEVM client manager
+ * @module @fhevm-sdk/core/manager
+ */
+
+import type { Eip1193Provider } from "ethers";
+import {
+  FHEVMClient,
+  type FHEVMClientConfig,
+  type EncryptedInputBuilder,
+  type EncryptionConfig,
+  type EncryptionResult,
+  type DecryptionRequest,
+} from "./client";
+import type { GenericStringStorage } from "../storage/GenericStringStorage";
+import type { FhevmOperationOptions } from "./abort";
+import type { FhevmTypedDataSigner } from "./signer";
+
+/**
+ * Configuration options for FHEVM Client Manager
+ */
+export interface FHEVMClientManagerConfig {
+  /**
+   * Provider for each chain: a map keyed by chain ID, or a factory called
+   * the first time a chain is used
+   */
+  providers:
+    | Record<number, Eip1193Provider | string>
+    | ((chainId: number) => Eip1193Provider | string | undefined);
+
+  /** Options shared by every per-chain client */
+  clientConfig?: Omit<FHEVMClientConfig, "provider" | "chainId" | "autoInit">;
+
+  /**
+   * Dispose clients that have not been used for this many milliseconds
+   * and are not retained (see `retain`). Set to 0 to keep clients until
+   * `dispose()`.
+   *
+   * @default 300000 (5 minutes)
+   */
+  idleTimeoutMs?: number;
+}
+
+type ManagedClient = {
+  client: FHEVMClient;
+  ready: Promise<FHEVMClient>;
+  lastUsedAt: number;
+  pending: number;
+};
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Manages one `FHEVMClient` per chain
+ *
+ * Clients are created and initialized lazily on first use. They share the
+ * loaded relayer SDK module (loaded and initialized once per page/process)
+ * and the public key cache, so a second chain only pays for its own
+ * instance creation.
+ *
+ * @example
+ * ```typescript
+ * const manager = new FHEVMClientManager({
+ *   providers: {
+ *     11155111: 'https://rpc.sepolia.org',
+ *     31415: 'https://rpc.devnet.example.com',
+ *   },
+ *   clientConfig: { networks: { 31415: devnetNetwork } },
+ * });
+ *
+ * const [sepolia, devnet] = await Promise.all([
+ *   manager.publicDecrypt(11155111, [handleA]),
+ *   manager.publicDecrypt(31415, [handleB]),
+ * ]);
+ * ```
+ */
+export class FHEVMClientManager {
+  private config: FHEVMClientManagerConfig;
+  private clients = new Map<number, ManagedClient>();
+  private retained = new Map<number, number>();
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  private listeners: Set<(chainIds: number[]) => void> = new Set();
+
+  constructor(config: FHEVMClientManagerConfig) {
+    this.config = {
+      idleTimeoutMs: DEFAULT_IDLE_TIMEOUT_MS,
+      ...config,
+    };
+  }
+
+  /**
+   * Chain IDs with a live client
+   */
+  get chainIds(): number[] {
+    return Array.from(this.clients.keys());
+  }
+
+  /**
+   * Subscribe to clients being created or disposed
+   */
+  onClientsChange(listener: (chainIds: number[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const chainIds = this.chainIds;
+    this.listeners.forEach(listener => listener(chainIds));
+  }
+
+  private resolveProvider(chainId: number): Eip1193Provider | string {
+    const { providers } = this.config;
+    const provider =
+      typeof providers === "function" ? providers(chainId) : providers[chainId];
+
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Get the client for a chain without creating it
+   */
+  peekClient(chainId: number): FHEVMClient | undefined {
+    return this.clients.get(chainId)?.client;
+  }
+
+  /**
+   * Get the initialized client for a chain, creating it on first use
+   *
+   * Concurrent calls for the same chain share one initialization. A client
+   * whose initialization failed is discarded so the next call retries.
+   */
+  async getClient(chainId: number): Promise<FHEVMClient> {
+    let entry = this.clients.get(chainId);
+
+    if (!entry) {
+      const client = new FHEVMClient({
+        ...this.config.clientConfig,
+        provider: this.resolveProvider(chainId),
+        chainId,
+      });
+
+      const ready = client.init().then(
+        () => client,
+        (error) => {
+          if (this.clients.get(chainId)?.client === client) {
+            this.clients.delete(chainId);
+            client.dispose();
+            this.notify();
+          }
+          throw error;
+        }
+      );
+
+      entry = { client, ready, lastUsedAt: Date.now(), pending: 0 };
+      this.clients.set(chainId, entry);
+      this.startSweeping();
+      this.notify();
+    }
+
+    entry.lastUsedAt = Date.now();
+    return entry.ready;
+  }
+
+  /**
+   * Keep a chain's client out of the idle sweep, e.g. while a hook shows
+   * it. Retains are counted; the idle timeout restarts once the last one
+   * is released.
+   *
+   * @returns Function releasing this retain
+   */
+  retain(chainId: number): () => void {
+    this.retained.set(chainId, (this.retained.get(chainId) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const count = (this.retained.get(chainId) ?? 1) - 1;
+      if (count > 0) {
+        this.retained.set(chainId, count);
+      } else {
+        this.retained.delete(chainId);
+      }
+      const entry = this.clients.get(chainId);
+      if (entry) entry.lastUsedAt = Date.now();
+    };
+  }
+
+  /**
+   * Run an operation on a chain's client, keeping it alive meanwhile
+   */
+  private async withClient<T>(
+    chainId: number,
+    run: (client: FHEVMClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.getClient(chainId);
+    const entry = this.clients.get(chainId);
+    if (entry) entry.pending++;
+
+    try {
+      return await run(client);
+    } finally {
+      if (entry) {
+        entry.pending--;
+        entry.lastUsedAt = Date.now();
+      }
+    }
+  }
+
+  /**
+   * Encrypt values for a contract on the given chain
+   */
+  async encrypt(
+    chainId: number,
+    builder: EncryptedInputBuilder,
+    config: EncryptionConfig,
+    options?: FhevmOperationOptions
+  ): Promise<EncryptionResult> {
+    return this.withClient(chainId, client => client.encrypt(builder, config, options));
+  }
+
+  /**
+   * User-decrypt handles on the given chain
+   */
+  async decrypt(
+    chainId: number,
+    requests: DecryptionRequest[],
+    signer: FhevmTypedDataSigner,
+    signatureStorage?: GenericStringStorage,
+    options?: FhevmOperationOptions
+  ): Promise<Record<string, string | bigint | boolean>> {
+    return this.withClient(chainId, client =>
+      client.decrypt(requests, signer, signatureStorage, options)
+    );
+  }
+
+  /**
+   * Public-decrypt handles on the given chain
+   */
+  async publicDecrypt(
+    chainId: number,
+    handles: string[],
+    options?: FhevmOperationOptions
+  ): Promise<Record<string, string | bigint | boolean>> {
+    return this.withClient(chainId, client => client.publicDecrypt(handles, options));
+  }
+
+  /**
+   * Dispose the client of a single chain
+   */
+  disposeClient(chainId: number): boolean {
+    const entry = this.clients.get(chainId);
+    if (!entry) {
+      return false;
+    }
+    this.clients.delete(chainId);
+    entry.client.dispose();
+    if (this.clients.size === 0) {
+      this.stopSweeping();
+    }
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Dispose clients that are idle for longer than `idleTimeoutMs`
+   *
+   * @returns Chain IDs of the disposed clients
+   */
+  disposeIdle(now: number = Date.now()): number[] {
+    const timeout = this.config.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    if (timeout <= 0) {
+      return [];
+    }
+
+    const disposed: number[] = [];
+    for (const [chainId, entry] of this.clients) {
+      if (entry.pending === 0 && !this.retained.has(chainId) && now - entry.lastUsedAt >= timeout) {
+        disposed.push(chainId);
+      }
+    }
+    disposed.forEach(chainId => this.disposeClient(chainId));
+    return disposed;
+  }
+
+  /**
+   * Dispose every client and stop the idle sweep
+   */
+  dispose(): void {
+    this.stopSweeping();
+    const entries = Array.from(this.clients.values());
+    this.clients.clear();
+    this.retained.clear();
+    entries.forEach(entry => entry.client.dispose());
+    this.notify();
+    this.listeners.clear();
+  }
+
+  private startSweeping(): void {
+    const timeout = this.config.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    if (this.sweepTimer || timeout <= 0) {
+      return;
+    }
+    this.sweepTimer = setInterval(
+      () => this.disposeIdle(),
+      Math.max(1000, Math.floor(timeout / 2))
+    );
+    // Do not keep Node processes alive just for the sweep
+    (this.sweepTimer as { unref?: () => void }).unref?.();
+  }
+
+  private stopSweeping(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+}
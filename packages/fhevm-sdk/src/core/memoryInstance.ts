@@ -0,0 +1,289 @@
+/**
+ * @fileoverview In-memory FHEVM instance for tests
+ * @module @fhevm-sdk/core/memoryInstance
+ */
+
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import type { DecryptedResults, EIP712Type, FhevmInstance, HandleContractPair } from "../fhevmTypes";
+import { FHE_TYPE_BITS, FHE_TYPE_TO_METHOD, withInputValidation, type FHEDataType } from "./encryption";
+import { decodeFheValue, type FheValue } from "./decryption";
+import { FheHandle, FHE_TYPES, type FheType } from "./handle";
+import { seedBytes } from "../internal/seedBytes";
+
+/**
+ * In-memory instance options
+ */
+export interface InMemoryFhevmInstanceOptions {
+  /**
+   * Chain ID encoded in the handles
+   *
+   * @default 31337
+   */
+  chainId?: number;
+
+  /**
+   * Reject user decryption of handles the user or contract is not allowed
+   * on, and public decryption of handles not made publicly decryptable
+   *
+   * @default true
+   */
+  enforceAcl?: boolean;
+}
+
+/**
+ * Options of a handle created with `createHandle`
+ */
+export interface InMemoryHandleOptions {
+  /** Accounts and contracts allowed to decrypt the value */
+  allow?: string[];
+
+  /** Whether anyone may decrypt the value with `publicDecrypt` */
+  publiclyDecryptable?: boolean;
+}
+
+type StoredCiphertext = {
+  value: FheValue;
+  allowed: Set<string>;
+  publiclyDecryptable: boolean;
+};
+
+const DECRYPTION_VERIFYING_CONTRACT: `0x${string}` = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const COMPUTED_INDEX = 0xff;
+
+function toFheType(type: FHEDataType): FheType {
+  return `e${type}` as FheType;
+}
+
+function toHexString(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * FHEVM instance that keeps plaintexts in memory instead of encrypting
+ *
+ * Implements the `FhevmInstance` API without a network, a Hardhat node or
+ * WASM: encrypted inputs register their plaintexts under deterministic
+ * handles, and decryption reads them back. Signatures are not verified.
+ * Pass it as `instance` in `FHEVMClientConfig` to run the client, hooks
+ * and adapters offline.
+ *
+ * @example
+ * ```typescript
+ * const instance = new InMemoryFhevmInstance();
+ * const client = new FHEVMClient({ provider: 'http://localhost:8545', instance });
+ * await client.init();
+ *
+ * // Simulate contract state
+ * const balance = instance.createHandle('euint64', 100n, { allow: [token, user] });
+ * ```
+ */
+export class InMemoryFhevmInstance implements FhevmInstance {
+  readonly chainId: number;
+  private enforceAcl: boolean;
+  private ciphertexts = new Map<string, StoredCiphertext>();
+  private inputCount = 0;
+  private computedCount = 0;
+  private keypairCount = 0;
+
+  constructor(options: InMemoryFhevmInstanceOptions = {}) {
+    this.chainId = options.chainId ?? 31337;
+    this.enforceAcl = options.enforceAcl ?? true;
+  }
+
+  /**
+   * Register a plaintext under a new computed handle, as the result of an
+   * FHE operation in a contract would be
+   */
+  createHandle<T extends FheType>(
+    type: T,
+    value: FheValue<T> | number | string,
+    options: InMemoryHandleOptions = {}
+  ): `0x${string}` {
+    const handle = this.newHandle(`computed:${this.computedCount++}`, COMPUTED_INDEX, type);
+    this.store(handle, type, value, options.allow ?? []);
+    if (options.publiclyDecryptable) {
+      this.makePubliclyDecryptable(handle);
+    }
+    return handle;
+  }
+
+  /**
+   * Allow accounts or contracts to decrypt a handle
+   */
+  allow(handle: string | Uint8Array | FheHandle, ...accounts: string[]): void {
+    const stored = this.get(handle);
+    for (const account of accounts) {
+      stored.allowed.add(account.toLowerCase());
+    }
+  }
+
+  /**
+   * Let anyone decrypt a handle with `publicDecrypt`
+   */
+  makePubliclyDecryptable(handle: string | Uint8Array | FheHandle): void {
+    this.get(handle).publiclyDecryptable = true;
+  }
+
+  /**
+   * Plaintext behind a handle, undefined for unknown handles
+   */
+  getPlaintext(handle: string | Uint8Array | FheHandle): FheValue | undefined {
+    return this.ciphertexts.get(FheHandle.key(handle))?.value;
+  }
+
+  createEncryptedInput(contractAddress: string, userAddress: string): RelayerEncryptedInput {
+    const values: { type: FHEDataType; value: unknown }[] = [];
+    const input = {} as Record<string, unknown>;
+
+    for (const [type, method] of Object.entries(FHE_TYPE_TO_METHOD) as [FHEDataType, string][]) {
+      input[method] = (value: unknown) => {
+        values.push({ type, value });
+        return input;
+      };
+    }
+    input.getBits = () => values.map(({ type }) => FHE_TYPE_BITS[type]);
+    input.encrypt = async () => {
+      const seed = `input:${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}:${this.inputCount++}`;
+      const handles = values.map(({ type, value }, index) => {
+        const handle = this.newHandle(`${seed}:${index}`, index, toFheType(type));
+        this.store(handle, toFheType(type), value, [contractAddress, userAddress]);
+        return FheHandle.from(handle).bytes;
+      });
+
+      // Same layout as a relayer proof: handle count, signer count, handles
+      const inputProof = new Uint8Array(2 + handles.length * 32);
+      inputProof[0] = handles.length;
+      handles.forEach((handle, i) => inputProof.set(handle, 2 + i * 32));
+
+      return { handles, inputProof };
+    };
+
+    return withInputValidation(input as unknown as RelayerEncryptedInput);
+  }
+
+  generateKeypair(): { publicKey: string; privateKey: string } {
+    const n = this.keypairCount++;
+    return {
+      publicKey: toHexString(seedBytes(`public:${n}`)),
+      privateKey: toHexString(seedBytes(`private:${n}`)),
+    };
+  }
+
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): EIP712Type {
+    return {
+      domain: {
+        name: "Decryption",
+        version: "1",
+        chainId: this.chainId,
+        verifyingContract: DECRYPTION_VERIFYING_CONTRACT,
+      },
+      primaryType: "UserDecryptRequestVerification",
+      types: {
+        UserDecryptRequestVerification: [
+          { name: "publicKey", type: "bytes" },
+          { name: "contractAddresses", type: "address[]" },
+          { name: "contractsChainId", type: "uint256" },
+          { name: "startTimestamp", type: "uint256" },
+          { name: "durationDays", type: "uint256" },
+          { name: "extraData", type: "bytes" },
+        ],
+      },
+      message: {
+        publicKey: publicKey.startsWith("0x") ? publicKey : `0x${publicKey}`,
+        contractAddresses,
+        contractsChainId: String(this.chainId),
+        startTimestamp: String(startTimestamp),
+        durationDays: String(durationDays),
+        extraData: "0x00",
+      },
+    };
+  }
+
+  async userDecrypt(
+    handles: HandleContractPair[],
+    _privateKey: string,
+    _publicKey: string,
+    _signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<DecryptedResults> {
+    const expiresAt = (Number(startTimestamp) + Number(durationDays) * 86400) * 1000;
+    if (Date.now() > expiresAt) {
+      throw new Error("User decryption request has expired");
+    }
+
+    const authorized = new Set(contractAddresses.map((address) => address.toLowerCase()));
+    const results: DecryptedResults = {};
+
+    for (const { handle, contractAddress } of handles) {
+      const stored = this.get(handle);
+      if (!authorized.has(contractAddress.toLowerCase())) {
+        throw new Error(`Contract ${contractAddress} is not in the signed contract addresses`);
+      }
+      if (this.enforceAcl) {
+        for (const account of [userAddress, contractAddress]) {
+          if (!stored.allowed.has(account.toLowerCase())) {
+            throw new Error(`${account} is not allowed to decrypt ${FheHandle.key(handle)}`);
+          }
+        }
+      }
+      results[FheHandle.key(handle)] = stored.value;
+    }
+
+    return results;
+  }
+
+  async publicDecrypt(handles: (string | Uint8Array)[]): Promise<DecryptedResults> {
+    const results: DecryptedResults = {};
+
+    for (const handle of handles) {
+      const stored = this.get(handle);
+      if (this.enforceAcl && !stored.publiclyDecryptable) {
+        throw new Error(`Handle ${FheHandle.key(handle)} is not publicly decryptable`);
+      }
+      results[FheHandle.key(handle)] = stored.value;
+    }
+
+    return results;
+  }
+
+  getPublicKey(): null {
+    return null;
+  }
+
+  getPublicParams(): null {
+    return null;
+  }
+
+  private newHandle(seed: string, index: number, type: FheType): `0x${string}` {
+    const bytes = new Uint8Array(32);
+    bytes.set(seedBytes(`${this.chainId}:${seed}`, 21));
+    bytes[21] = index;
+    new DataView(bytes.buffer).setBigUint64(22, BigInt(this.chainId));
+    bytes[30] = FHE_TYPES.indexOf(type);
+    return FheHandle.from(bytes).hex;
+  }
+
+  private store(handle: string, type: FheType, value: unknown, allowed: string[]): void {
+    this.ciphertexts.set(handle, {
+      value: decodeFheValue(type, value),
+      allowed: new Set(allowed.map((account) => account.toLowerCase())),
+      publiclyDecryptable: false,
+    });
+  }
+
+  private get(handle: string | Uint8Array | FheHandle): StoredCiphertext {
+    const stored = this.ciphertexts.get(FheHandle.key(handle));
+    if (!stored) {
+      throw new Error(`Unknown handle ${FheHandle.key(handle)}`);
+    }
+    return stored;
+  }
+}
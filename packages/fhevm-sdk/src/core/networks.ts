@@ -0,0 +1,212 @@
+/**
+ * @fileoverview fhEVM network registry
+ * @module @fhevm-sdk/core/networks
+ */
+
+/**
+ * Contract addresses and endpoints of a single fhEVM network
+ */
+export interface FhevmNetworkConfig {
+  /** Human readable network name */
+  name?: string;
+
+  /** Host chain ID (where the confidential contracts are deployed) */
+  chainId: number;
+
+  /** ACL contract address (host chain) */
+  aclContractAddress: `0x${string}`;
+
+  /** KMS verifier contract address (host chain) */
+  kmsContractAddress: `0x${string}`;
+
+  /** Input verifier contract address (host chain) */
+  inputVerifierContractAddress: `0x${string}`;
+
+  /** Decryption verifying contract address (gateway chain) */
+  verifyingContractAddressDecryption: `0x${string}`;
+
+  /** Input verification verifying contract address (gateway chain) */
+  verifyingContractAddressInputVerification: `0x${string}`;
+
+  /** Gateway chain ID */
+  gatewayChainId: number;
+
+  /** Relayer base URL */
+  relayerUrl: string;
+}
+
+/**
+ * Sepolia testnet configuration (matches the relayer SDK `SepoliaConfig`)
+ */
+export const SEPOLIA_NETWORK: FhevmNetworkConfig = {
+  name: "Sepolia",
+  chainId: 11155111,
+  aclContractAddress: "0x687820221192C5B662b25367F70076A37bc79b6c",
+  kmsContractAddress: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+  inputVerifierContractAddress: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+  verifyingContractAddressDecryption: "0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1",
+  verifyingContractAddressInputVerification: "0x7048C39f048125eDa9d678AEbaDfB22F7900a29F",
+  gatewayChainId: 55815,
+  relayerUrl: "https://relayer.testnet.zama.cloud",
+};
+
+/**
+ * Networks known to the SDK out of the box, keyed by chain ID
+ */
+export const DEFAULT_NETWORKS: Readonly<Record<number, FhevmNetworkConfig>> = {
+  [SEPOLIA_NETWORK.chainId]: SEPOLIA_NETWORK,
+};
+
+/**
+ * Network entries accepted by `FHEVMClientConfig.networks`
+ *
+ * Entries for chains that are already registered may be partial; the given
+ * fields override the registered ones. New chains must be complete.
+ */
+export type FhevmNetworkOverrides = Record<
+  number,
+  FhevmNetworkConfig | Partial<Omit<FhevmNetworkConfig, "chainId">>
+>;
+
+const REQUIRED_ADDRESS_FIELDS = [
+  "aclContractAddress",
+  "kmsContractAddress",
+  "inputVerifierContractAddress",
+  "verifyingContractAddressDecryption",
+  "verifyingContractAddressInputVerification",
+] as const;
+
+/**
+ * Error thrown when a network entry is invalid or missing
+ */
+export class FhevmNetworkError extends Error {
+  constructor(
+    public code: "INVALID_NETWORK" | "UNSUPPORTED_CHAIN",
+    public chainId: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "FhevmNetworkError";
+  }
+}
+
+function assertFhevmNetworkConfig(
+  chainId: number,
+  value: Partial<FhevmNetworkConfig>
+): asserts value is FhevmNetworkConfig {
+  if (value.chainId !== chainId) {
+    throw new FhevmNetworkError(
+      "INVALID_NETWORK",
+      chainId,
+      `Network entry for chain ${chainId} has mismatching chainId ${value.chainId}`
+    );
+  }
+  for (const field of REQUIRED_ADDRESS_FIELDS) {
+    const address = value[field];
+    if (typeof address !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      throw new FhevmNetworkError(
+        "INVALID_NETWORK",
+        chainId,
+        `Network entry for chain ${chainId} has an invalid ${field}: ${address}`
+      );
+    }
+  }
+  if (typeof value.gatewayChainId !== "number" || !Number.isInteger(value.gatewayChainId)) {
+    throw new FhevmNetworkError(
+      "INVALID_NETWORK",
+      chainId,
+      `Network entry for chain ${chainId} has an invalid gatewayChainId: ${value.gatewayChainId}`
+    );
+  }
+  if (typeof value.relayerUrl !== "string" || value.relayerUrl.length === 0) {
+    throw new FhevmNetworkError(
+      "INVALID_NETWORK",
+      chainId,
+      `Network entry for chain ${chainId} has an invalid relayerUrl: ${value.relayerUrl}`
+    );
+  }
+}
+
+/**
+ * Registry of fhEVM networks keyed by chain ID
+ *
+ * @example
+ * ```typescript
+ * const registry = new FhevmNetworkRegistry({
+ *   31415: {
+ *     chainId: 31415,
+ *     aclContractAddress: '0x...',
+ *     // ...
+ *     gatewayChainId: 55815,
+ *     relayerUrl: 'https://relayer.devnet.example.com',
+ *   },
+ * });
+ *
+ * registry.get(11155111); // Sepolia (built-in)
+ * registry.get(31415);    // Private devnet
+ * ```
+ */
+export class FhevmNetworkRegistry {
+  #networks = new Map<number, FhevmNetworkConfig>();
+
+  constructor(overrides?: FhevmNetworkOverrides, defaults: Readonly<Record<number, FhevmNetworkConfig>> = DEFAULT_NETWORKS) {
+    for (const network of Object.values(defaults)) {
+      this.#networks.set(network.chainId, { ...network });
+    }
+    if (overrides) {
+      for (const [key, entry] of Object.entries(overrides)) {
+        this.register({ chainId: Number(key), ...entry });
+      }
+    }
+  }
+
+  /**
+   * Register a network or override fields of an already registered one
+   *
+   * @throws {FhevmNetworkError} If the resulting entry is incomplete or invalid
+   */
+  register(entry: Partial<FhevmNetworkConfig> & { chainId: number }): FhevmNetworkConfig {
+    const merged = { ...this.#networks.get(entry.chainId), ...entry };
+    assertFhevmNetworkConfig(entry.chainId, merged);
+    this.#networks.set(entry.chainId, merged);
+    return merged;
+  }
+
+  /**
+   * Remove a network from the registry
+   */
+  unregister(chainId: number): boolean {
+    return this.#networks.delete(chainId);
+  }
+
+  has(chainId: number): boolean {
+    return this.#networks.has(chainId);
+  }
+
+  /**
+   * Get a registered network
+   *
+   * @throws {FhevmNetworkError} If the chain is not registered
+   */
+  get(chainId: number): FhevmNetworkConfig {
+    const network = this.#networks.get(chainId);
+    if (!network) {
+      const known = this.chainIds().join(", ") || "none";
+      throw new FhevmNetworkError(
+        "UNSUPPORTED_CHAIN",
+        chainId,
+        `Chain ${chainId} is not a registered fhEVM network (registered: ${known}). ` +
+          `Add it through FHEVMClientConfig.networks.`
+      );
+    }
+    return network;
+  }
+
+  chainIds(): number[] {
+    return Array.from(this.#networks.keys());
+  }
+
+  list(): FhevmNetworkConfig[] {
+    return Array.from(this.#networks.values());
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Retry, backoff and timeout policy for relayer operations
+ * @module @fhevm-sdk/core/retry
+ */
+
+import { FhevmAbortError, raceWithSignal, throwIfAborted } from "./abort";
+
+/**
+ * Retry policy for relayer operations
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+
+  /** Upper bound for a single delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  backoffFactor?: number;
+
+  /**
+   * Random jitter as a fraction of the delay, between 0 and 1.
+   * A delay `d` becomes a random value in `[d * (1 - jitter), d]` (default: 0.5)
+   */
+  jitter?: number;
+
+  /** HTTP status codes worth retrying (default: 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+
+  /**
+   * Relayer error codes worth retrying, as found in `error.cause.code`
+   * (default: `RELAYER_UNKNOWN_ERROR`, i.e. the relayer did not respond)
+   */
+  retryOnCodes?: string[];
+
+  /** Custom predicate; replaces the status/code checks when provided */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /**
+   * Wait for the relayer's `Retry-After` on 429 responses (default: true).
+   * The client routes its relayer requests to read the header while this
+   * is on.
+   */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Per-operation timeouts in milliseconds, covering all attempts
+ */
+export interface OperationTimeouts {
+  encrypt?: number;
+  decrypt?: number;
+  publicDecrypt?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, "shouldRetry">> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+  backoffFactor: 2,
+  jitter: 0.5,
+  retryOnStatus: [429, 500, 502, 503, 504],
+  retryOnCodes: ["RELAYER_UNKNOWN_ERROR"],
+  respectRetryAfter: true,
+};
+
+/**
+ * Error thrown when an operation exceeds its timeout
+ */
+export class FhevmTimeoutError extends Error {
+  constructor(
+    public operation: string,
+    public timeoutMs: number
+  ) {
+    super(`FHEVM ${operation} timed out after ${timeoutMs}ms`);
+    this.name = "FhevmTimeoutError";
+  }
+}
+
+/**
+ * Relayer error details carried in `error.cause` by the relayer SDK
+ */
+export function getRelayerErrorCause(
+  error: unknown
+): { code?: string; status?: number; url?: string } | undefined {
+  if (!(error instanceof Error) || typeof error.cause !== "object" || error.cause === null) {
+    return undefined;
+  }
+  const cause = error.cause as { code?: unknown; status?: unknown; url?: unknown };
+  return {
+    code: typeof cause.code === "string" ? cause.code : undefined,
+    status: typeof cause.status === "number" ? cause.status : undefined,
+    url: typeof cause.url === "string" && cause.url ? cause.url : undefined,
+  };
+}
+
+/**
+ * Whether an error is retryable under the given policy
+ */
+export function isRetryableError(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy = {}
+): boolean {
+  if (policy.shouldRetry) {
+    return policy.shouldRetry(error, attempt);
+  }
+
+  const cause = getRelayerErrorCause(error);
+  if (!cause) {
+    return false;
+  }
+
+  const retryOnStatus = policy.retryOnStatus ?? DEFAULT_RETRY_POLICY.retryOnStatus;
+  const retryOnCodes = policy.retryOnCodes ?? DEFAULT_RETRY_POLICY.retryOnCodes;
+
+  if (cause.status !== undefined && retryOnStatus.includes(cause.status)) {
+    return true;
+  }
+  return cause.code !== undefined && retryOnCodes.includes(cause.code);
+}
+
+/**
+ * Backoff delay before retry number `attempt` (1-based)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy = {},
+  random: () => number = Math.random
+): number {
+  const initialDelayMs = policy.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+  const backoffFactor = policy.backoffFactor ?? DEFAULT_RETRY_POLICY.backoffFactor;
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? DEFAULT_RETRY_POLICY.jitter));
+
+  const delay = Math.min(maxDelayMs, initialDelayMs * backoffFactor ** (attempt - 1));
+  return Math.round(delay * (1 - jitter * random()));
+}
+
+/**
+ * Parse a `Retry-After` header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+export interface RetryAttemptInfo {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+}
+
+export interface RetryScheduledInfo {
+  /** Attempt that failed */
+  attempt: number;
+  error: Error;
+  /** Delay before the next attempt */
+  delayMs: number;
+}
+
+export interface WithRetryOptions {
+  /** Operation name, used in timeout errors */
+  operation: string;
+
+  /** Retry policy; without one the operation runs once */
+  policy?: RetryPolicy;
+
+  /** Deadline for all attempts together */
+  timeoutMs?: number;
+
+  /** Called before every attempt */
+  onAttempt?: (info: RetryAttemptInfo) => void;
+
+  /** Called when a failed attempt is about to be retried */
+  onRetry?: (info: RetryScheduledInfo) => void;
+
+  /** Retry-After hint (ms) for the error of a failed attempt, if any */
+  getRetryAfterMs?: (error: Error) => number | undefined;
+
+  /** Cancels the operation, including a pending backoff delay */
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an operation with retries, backoff and an overall timeout
+ *
+ * @example
+ * ```typescript
+ * const results = await withRetry(
+ *   () => instance.publicDecrypt(handles),
+ *   { operation: 'publicDecrypt', policy: { maxAttempts: 5 }, timeoutMs: 30_000 }
+ * );
+ * ```
+ */
+export async function withRetry<T>(
+  run: (attempt: number) => Promise<T>,
+  options: WithRetryOptions
+): Promise<T> {
+  const { operation, policy, timeoutMs, onAttempt, onRetry, getRetryAfterMs, signal } = options;
+  const maxAttempts = policy ? Math.max(1, policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts) : 1;
+  const respectRetryAfter = policy?.respectRetryAfter ?? DEFAULT_RETRY_POLICY.respectRetryAfter;
+  const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : undefined;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout =
+    deadline !== undefined
+      ? new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new FhevmTimeoutError(operation, timeoutMs!)), timeoutMs);
+        })
+      : undefined;
+  // Avoid unhandled rejections when the operation settles first
+  timeout?.catch(() => {});
+
+  const race = <R>(promise: Promise<R>) =>
+    raceWithSignal(timeout ? Promise.race([promise, timeout]) : promise, signal);
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+      onAttempt?.({ attempt });
+      try {
+        return await race(run(attempt));
+      } catch (error) {
+        if (
+          error instanceof FhevmTimeoutError ||
+          error instanceof FhevmAbortError ||
+          attempt >= maxAttempts ||
+          !isRetryableError(error, attempt, policy)
+        ) {
+          throw error;
+        }
+
+        let delayMs = computeBackoffDelay(attempt, policy);
+        if (respectRetryAfter && getRelayerErrorCause(error)?.status === 429) {
+          const retryAfterMs = getRetryAfterMs?.(error as Error);
+          if (retryAfterMs !== undefined) {
+            delayMs = Math.max(delayMs, retryAfterMs);
+          }
+        }
+        if (deadline !== undefined && Date.now() + delayMs >= deadline) {
+          // Waiting would overrun the timeout anyway
+          throw error;
+        }
+
+        onRetry?.({ attempt, error: error as Error, delayMs });
+        await race(sleep(delayMs));
+      }
+    }
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Where the Zama relayer SDK is loaded from
+ * @module @fhevm-sdk/core/sdkSource
+ */
+
+/**
+ * Relayer SDK version this package is built and tested against
+ */
+export const RELAYER_SDK_VERSION = "0.2.0";
+
+/**
+ * How the relayer SDK is loaded
+ *
+ * - `npm`: import `@zama-fhe/relayer-sdk/bundle` through your bundler, or
+ *   `@zama-fhe/relayer-sdk/web` where there is no `window` (workers)
+ * - `cdn`: inject Zama's CDN build of `version` as a script tag, checked
+ *   against the Subresource Integrity hash `integrity`
+ * - `self-hosted`: inject the UMD build from your own origin
+ *
+ * In workers, `cdn` and `self-hosted` builds are fetched, checked and
+ * imported instead of injected. Node.js has neither: use `npm` there.
+ *
+ * @example
+ * ```typescript
+ * sdkSource: {
+ *   type: 'cdn',
+ *   version: '0.2.0',
+ *   integrity: 'sha384-...',
+ * }
+ * ```
+ */
+export type RelayerSDKSource =
+  | { type: "npm" }
+  | {
+      type: "cdn";
+      /** @default RELAYER_SDK_VERSION */
+      version?: string;
+      /** SRI hash of the script, e.g. `sha384-...` */
+      integrity: string;
+    }
+  | {
+      type: "self-hosted";
+      /** URL of `relayer-sdk-js.umd.cjs` */
+      url: string;
+      integrity?: string;
+      /** Version of the hosted build, checked against `RELAYER_SDK_VERSION` */
+      version?: string;
+    };
+
+/**
+ * Error thrown when the relayer SDK cannot be loaded
+ */
+export class RelayerSDKLoadError extends Error {
+  constructor(
+    public code: "LOAD_FAILED" | "INVALID_SDK" | "VERSION_MISMATCH" | "UNSUPPORTED_ENVIRONMENT",
+    message: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "RelayerSDKLoadError";
+  }
+}
+
+/**
+ * URL of a version of the relayer SDK on Zama's CDN
+ */
+export function getRelayerSDKCdnUrl(version: string = RELAYER_SDK_VERSION): string {
+  return `https://cdn.zama.ai/relayer-sdk-js/${version}/relayer-sdk-js.umd.cjs`;
+}
+
+/**
+ * Whether two versions are compatible: same major, and same minor while
+ * the major is 0
+ */
+export function isCompatibleRelayerSDKVersion(
+  version: string,
+  expected: string = RELAYER_SDK_VERSION
+): boolean {
+  const [major, minor] = version.replace(/^v/, "").split(".");
+  const [expectedMajor, expectedMinor] = expected.split(".");
+  return major === expectedMajor && (expectedMajor !== "0" || minor === expectedMinor);
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Typed-data signer abstraction and adapters
+ * @module @fhevm-sdk/core/signer
+ */
+
+import type { Signer, Wallet } from "ethers";
+
+/**
+ * EIP-712 domain
+ */
+export interface FhevmTypedDataDomain {
+  name?: string;
+  version?: string;
+  chainId?: number | bigint | string;
+  verifyingContract?: string;
+  salt?: string;
+}
+
+/**
+ * EIP-712 type definitions, without `EIP712Domain`
+ */
+export type FhevmTypedDataTypes = Record<string, Array<{ name: string; type: string }>>;
+
+/**
+ * Anything that can sign the EIP-712 user decryption request
+ *
+ * ethers v6 signers (`JsonRpcSigner`, `Wallet`, ...) satisfy this interface
+ * as they are. Use the adapters below for other wallets.
+ */
+export interface FhevmTypedDataSigner {
+  /** Address of the signing account */
+  getAddress(): Promise<string>;
+
+  /** Sign EIP-712 typed data (ethers v6 argument order) */
+  signTypedData(
+    domain: FhevmTypedDataDomain,
+    types: FhevmTypedDataTypes,
+    message: Record<string, unknown>
+  ): Promise<string>;
+}
+
+/**
+ * Minimal shape of a viem `WalletClient`
+ */
+export interface ViemWalletClientLike {
+  account?: { address: `0x${string}` } | undefined;
+  getAddresses(): Promise<readonly `0x${string}`[]>;
+  signTypedData(parameters: {
+    account: { address: `0x${string}` } | `0x${string}`;
+    domain: FhevmTypedDataDomain;
+    types: FhevmTypedDataTypes;
+    primaryType: string;
+    message: Record<string, unknown>;
+  }): Promise<`0x${string}`>;
+}
+
+/**
+ * Minimal shape of an EIP-1193 provider
+ */
+export interface Eip1193RequestProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+const DOMAIN_FIELD_TYPES: Array<[keyof FhevmTypedDataDomain, string]> = [
+  ["name", "string"],
+  ["version", "string"],
+  ["chainId", "uint256"],
+  ["verifyingContract", "address"],
+  ["salt", "bytes32"],
+];
+
+/**
+ * Primary type of a set of EIP-712 types: the one no other type references
+ */
+export function getPrimaryType(types: FhevmTypedDataTypes): string {
+  const names = Object.keys(types).filter(name => name !== "EIP712Domain");
+  const referenced = new Set(
+    names.flatMap(name => types[name].map(field => field.type.replace(/\[\d*\]$/, "")))
+  );
+  const candidates = names.filter(name => !referenced.has(name));
+
+  if (candidates.length !== 1) {
+    throw new TypeError(`Ambiguous EIP-712 primary type: ${candidates.join(", ") || "none"}`);
+  }
+  return candidates[0];
+}
+
+/**
+ * Adapt an ethers v6 `Signer` (e.g. a `JsonRpcSigner` from `BrowserProvider`)
+ */
+export function fromEthersSigner(signer: Signer): FhevmTypedDataSigner {
+  return {
+    getAddress: () => signer.getAddress(),
+    signTypedData: (domain, types, message) => signer.signTypedData(domain, types, message),
+  };
+}
+
+/**
+ * Adapt an ethers v6 `Wallet`; it does not need to be connected to a provider
+ *
+ * @example
+ * ```typescript
+ * const signer = fromEthersWallet(new Wallet(process.env.PRIVATE_KEY!));
+ * ```
+ */
+export function fromEthersWallet(wallet: Wallet): FhevmTypedDataSigner {
+  return {
+    getAddress: async () => wallet.address,
+    signTypedData: (domain, types, message) => wallet.signTypedData(domain, types, message),
+  };
+}
+
+/**
+ * Adapt a viem `WalletClient`
+ *
+ * @param client - Wallet client, with or without a hoisted `account`
+ * @param account - Account to sign with (default: `client.account`, then the first address)
+ */
+export function fromViemWalletClient(
+  client: ViemWalletClientLike,
+  account?: `0x${string}`
+): FhevmTypedDataSigner {
+  const resolveAccount = async () => {
+    if (account) return account;
+    if (client.account) return client.account.address;
+
+    const [address] = await client.getAddresses();
+    if (!address) {
+      throw new Error("Wallet client has no account");
+    }
+    return address;
+  };
+
+  return {
+    getAddress: resolveAccount,
+    signTypedData: async (domain, types, message) =>
+      client.signTypedData({
+        // A local account object signs without a wallet round-trip
+        account: !account && client.account ? client.account : await resolveAccount(),
+        domain,
+        types,
+        primaryType: getPrimaryType(types),
+        message,
+      }),
+  };
+}
+
+/**
+ * Adapt a raw EIP-1193 provider, signing with `eth_signTypedData_v4`
+ *
+ * @param provider - EIP-1193 provider (e.g. `window.ethereum`)
+ * @param address - Account to sign with (default: first of `eth_accounts`)
+ */
+export function fromEip1193Provider(
+  provider: Eip1193RequestProvider,
+  address?: string
+): FhevmTypedDataSigner {
+  const resolveAddress = async () => {
+    if (address) return address;
+
+    const accounts = (await provider.request({ method: "eth_accounts" })) as string[];
+    if (!accounts?.[0]) {
+      throw new Error("No connected account; request accounts first");
+    }
+    return accounts[0];
+  };
+
+  return {
+    getAddress: resolveAddress,
+    signTypedData: async (domain, types, message) => {
+      const from = await resolveAddress();
+      const typedData = {
+        types: {
+          EIP712Domain: DOMAIN_FIELD_TYPES
+            .filter(([field]) => domain[field] !== undefined)
+            .map(([name, type]) => ({ name, type })),
+          ...types,
+        },
+        domain,
+        primaryType: getPrimaryType(types),
+        message,
+      };
+      const payload = JSON.stringify(typedData, (_, value) =>
+        typeof value === "bigint" ? value.toString() : value
+      );
+
+      return (await provider.request({
+        method: "eth_signTypedData_v4",
+        params: [from, payload],
+      })) as string;
+    },
+  };
+}
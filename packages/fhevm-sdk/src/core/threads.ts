@@ -0,0 +1,58 @@
+/**
+ * @fileoverview WASM threading capability check
+ * @module @fhevm-sdk/core/threads
+ */
+
+/**
+ * Whether the TFHE WASM module can run multi-threaded here
+ */
+export interface WasmThreadingSupport {
+  supported: boolean;
+
+  /** `SharedArrayBuffer` is defined */
+  sharedArrayBuffer: boolean;
+
+  /**
+   * The page is cross-origin isolated (served with
+   * `Cross-Origin-Opener-Policy: same-origin` and
+   * `Cross-Origin-Embedder-Policy: require-corp`). Always true outside
+   * browsers.
+   */
+  crossOriginIsolated: boolean;
+
+  /** Why threads are not available */
+  reason?: string;
+}
+
+/**
+ * Check for SharedArrayBuffer and cross-origin isolation, both required
+ * by the threaded WASM build
+ *
+ * @example
+ * ```typescript
+ * const { supported, reason } = getWasmThreadingSupport();
+ * if (!supported) console.info(`Single-threaded encryption: ${reason}`);
+ * ```
+ */
+export function getWasmThreadingSupport(): WasmThreadingSupport {
+  const sharedArrayBuffer = typeof SharedArrayBuffer !== "undefined";
+  // Only browsers (windows and workers) define crossOriginIsolated
+  const isolated = (globalThis as { crossOriginIsolated?: unknown }).crossOriginIsolated;
+  const crossOriginIsolated = typeof isolated === "boolean" ? isolated : true;
+
+  let reason: string | undefined;
+  if (!crossOriginIsolated) {
+    reason =
+      "The page is not cross-origin isolated; serve it with " +
+      "Cross-Origin-Opener-Policy: same-origin and Cross-Origin-Embedder-Policy: require-corp";
+  } else if (!sharedArrayBuffer) {
+    reason = "SharedArrayBuffer is not available";
+  }
+
+  return {
+    supported: reason === undefined,
+    sharedArrayBuffer,
+    crossOriginIsolated,
+    ...(reason && { reason }),
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Worker-backed encryption
+ * @module @fhevm-sdk/core/workerPool
+ */
+
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance } from "../fhevmTypes";
+import { FHE_TYPE_BITS, FHE_TYPE_TO_METHOD, type FHEDataType } from "./encryption";
+import {
+  deserializeError,
+  serializeError,
+  type EncryptInputOp,
+  type WorkerInstanceConfig,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "../worker/protocol";
+
+/**
+ * Encryption worker options
+ */
+export interface EncryptionWorkersConfig {
+  /**
+   * Create one worker running `uni-fhevm-sdk/worker`
+   *
+   * @example
+   * ```typescript
+   * createWorker: () =>
+   *   new Worker(new URL('uni-fhevm-sdk/worker', import.meta.url), { type: 'module' })
+   * ```
+   */
+  createWorker: () => Worker;
+
+  /**
+   * Number of workers; each holds its own instance and encrypts one input
+   * at a time
+   *
+   * @default 1
+   */
+  size?: number;
+}
+
+/**
+ * The parts of a `Worker` used by the pool
+ */
+type WorkerLike = Pick<Worker, "postMessage" | "terminate" | "addEventListener">;
+
+type PendingEncryption = {
+  resolve: (result: { handles: Uint8Array[]; inputProof: Uint8Array }) => void;
+  reject: (error: Error) => void;
+};
+
+type PooledWorker = {
+  worker: WorkerLike;
+  pending: Map<number, PendingEncryption>;
+};
+
+/**
+ * Pool of encryption workers
+ *
+ * Encryption requests go to the worker with the fewest pending requests.
+ * JSON-RPC calls of the workers' instances are answered with `provider`.
+ * A worker that crashes fails its pending requests and is replaced with
+ * the next request.
+ */
+export class EncryptionWorkerPool {
+  private workers: PooledWorker[] = [];
+  private nextId = 0;
+  private size: number;
+  private terminated = false;
+
+  constructor(
+    private options: EncryptionWorkersConfig,
+    private config: WorkerInstanceConfig,
+    private provider?: { request(args: { method: string; params?: unknown[] }): Promise<unknown> }
+  ) {
+    this.size = Math.max(1, options.size ?? 1);
+    for (let i = 0; i < this.size; i++) {
+      this.spawn();
+    }
+  }
+
+  /**
+   * Number of encryptions waiting for a result
+   */
+  get pendingCount(): number {
+    return this.workers.reduce((count, w) => count + w.pending.size, 0);
+  }
+
+  /**
+   * Encrypt recorded input operations in a worker
+   */
+  encrypt(
+    contractAddress: `0x${string}`,
+    userAddress: `0x${string}`,
+    ops: EncryptInputOp[]
+  ): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+    if (this.terminated) {
+      return Promise.reject(new Error("Encryption worker pool is terminated"));
+    }
+    // Replace crashed workers
+    while (this.workers.length < this.size) {
+      this.spawn();
+    }
+
+    const pooled = this.workers.reduce((a, b) => (b.pending.size < a.pending.size ? b : a));
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      pooled.pending.set(id, { resolve, reject });
+      this.post(pooled, { type: "encrypt", id, contractAddress, userAddress, ops });
+    });
+  }
+
+  /**
+   * `instance` with `createEncryptedInput` returning inputs that encrypt in
+   * this pool. Every other method runs on `instance` itself.
+   */
+  wrapInstance(instance: FhevmInstance): FhevmInstance {
+    return new Proxy(instance, {
+      get: (target, prop, receiver) => {
+        if (prop === "createEncryptedInput") {
+          return (contractAddress: string, userAddress: string) =>
+            this.createInput(contractAddress as `0x${string}`, userAddress as `0x${string}`);
+        }
+        const value = Reflect.get(target, prop, receiver);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+  }
+
+  /**
+   * Stop all workers and reject their pending requests
+   */
+  terminate(): void {
+    this.terminated = true;
+    const error = new Error("Encryption worker pool is terminated");
+    for (const pooled of this.workers) {
+      pooled.worker.terminate();
+      this.failAll(pooled, error);
+    }
+    this.workers = [];
+  }
+
+  private createInput(
+    contractAddress: `0x${string}`,
+    userAddress: `0x${string}`
+  ): RelayerEncryptedInput {
+    const ops: EncryptInputOp[] = [];
+    const input = {} as Record<string, unknown>;
+
+    for (const [type, method] of Object.entries(FHE_TYPE_TO_METHOD) as [FHEDataType, string][]) {
+      input[method] = (value: EncryptInputOp["value"]) => {
+        ops.push({ type, value });
+        return input;
+      };
+    }
+    input.getBits = () => ops.map(({ type }) => FHE_TYPE_BITS[type]);
+    input.encrypt = () => this.encrypt(contractAddress, userAddress, ops.slice());
+
+    return input as unknown as RelayerEncryptedInput;
+  }
+
+  private spawn(): void {
+    const pooled: PooledWorker = { worker: this.options.createWorker(), pending: new Map() };
+    pooled.worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) =>
+      this.onMessage(pooled, event.data)
+    );
+    pooled.worker.addEventListener("error", (event: ErrorEvent) => this.onCrash(pooled, event));
+    this.post(pooled, { type: "init", config: this.config });
+    this.workers.push(pooled);
+  }
+
+  private onCrash(pooled: PooledWorker, event: ErrorEvent): void {
+    this.workers = this.workers.filter((w) => w !== pooled);
+    pooled.worker.terminate();
+    this.failAll(pooled, new Error(event.message || "Encryption worker crashed"));
+  }
+
+  private post(pooled: PooledWorker, message: WorkerRequest): void {
+    pooled.worker.postMessage(message);
+  }
+
+  private async onMessage(pooled: PooledWorker, message: WorkerResponse): Promise<void> {
+    switch (message.type) {
+      case "encrypt:result":
+      case "encrypt:error": {
+        const pending = pooled.pending.get(message.id);
+        pooled.pending.delete(message.id);
+        if (message.type === "encrypt:result") {
+          pending?.resolve({ handles: message.handles, inputProof: message.inputProof });
+        } else {
+          pending?.reject(deserializeError(message.error));
+        }
+        break;
+      }
+
+      case "rpc": {
+        try {
+          if (!this.provider) {
+            throw new Error("No provider to answer worker JSON-RPC calls");
+          }
+          const result = await this.provider.request({ method: message.method, params: message.params });
+          this.post(pooled, { type: "rpc:result", id: message.id, result });
+        } catch (error) {
+          this.post(pooled, { type: "rpc:result", id: message.id, error: serializeError(error) });
+        }
+        break;
+      }
+    }
+  }
+
+  private failAll(pooled: PooledWorker, error: Error): void {
+    pooled.pending.forEach(({ reject }) => reject(error));
+    pooled.pending.clear();
+  }
+}
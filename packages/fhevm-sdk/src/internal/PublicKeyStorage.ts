@@ -1,53 +1,30 @@
-import { openDB, DBSchema, IDBPDatabase } from "idb";
+import type {
+  PublicKeyCache,
+  PublicKeyCacheEntry,
+  StoredPublicKey as FhevmStoredPublicKey,
+  StoredPublicParams as FhevmStoredPublicParams,
+} from "../storage/PublicKeyCache";
 
-type FhevmStoredPublicKey = {
-  publicKeyId: string;
-  publicKey: Uint8Array;
+/**
+ * Key identifiers currently published by the relayer
+ */
+export type RelayerKeyIds = {
+  /** All FHE public key ids the relayer serves */
+  publicKeyIds: string[];
+  /** Id of the 2048-bit CRS */
+  publicParamsId: string | undefined;
 };
 
-type FhevmStoredPublicParams = {
-  publicParamsId: string;
-  publicParams: Uint8Array;
+/**
+ * Key ids before and after a rotation
+ */
+export type PublicKeyRotation = {
+  aclAddress: `0x${string}`;
+  previous: { publicKeyId?: string; publicParamsId?: string };
+  current: { publicKeyIds: string[]; publicParamsId?: string };
 };
 
-interface PublicParamsDB extends DBSchema {
-  publicKeyStore: {
-    key: string;
-    value: {
-      acl: `0x${string}`;
-      value: FhevmStoredPublicKey;
-    };
-  };
-  paramsStore: {
-    key: string;
-    value: {
-      acl: `0x${string}`;
-      value: FhevmStoredPublicParams;
-    };
-  };
-}
-
-let __dbPromise: Promise<IDBPDatabase<PublicParamsDB>> | undefined = undefined;
-
-async function _getDB(): Promise<IDBPDatabase<PublicParamsDB> | undefined> {
-  if (__dbPromise) {
-    return __dbPromise;
-  }
-  if (typeof window === "undefined") {
-    return undefined;
-  }
-  __dbPromise = openDB<PublicParamsDB>("fhevm", 1, {
-    upgrade(db) {
-      if (!db.objectStoreNames.contains("paramsStore")) {
-        db.createObjectStore("paramsStore", { keyPath: "acl" });
-      }
-      if (!db.objectStoreNames.contains("publicKeyStore")) {
-        db.createObjectStore("publicKeyStore", { keyPath: "acl" });
-      }
-    },
-  });
-  return __dbPromise;
-}
+export const DEFAULT_PUBLIC_KEY_TTL_MS = 60 * 60 * 1000;
 
 type FhevmInstanceConfigPublicKey = {
   data: Uint8Array | null;
@@ -109,21 +86,67 @@ function assertFhevmStoredPublicParams(
   }
 }
 
-export async function publicKeyStorageGet(aclAddress: `0x${string}`): Promise<{
+/**
+ * Fetch the current key ids from the relayer's `/v1/keyurl`, without
+ * downloading the keys themselves
+ */
+export async function fetchRelayerKeyIds(relayerUrl: string): Promise<RelayerKeyIds> {
+  const response = await fetch(`${relayerUrl.replace(/\/+$/, "")}/v1/keyurl`);
+  if (!response.ok) {
+    throw new Error(`Relayer keyurl request failed with HTTP ${response.status}`);
+  }
+  const body = await response.json();
+  const keyInfo: Array<{ fhe_public_key?: { data_id?: string } }> =
+    body?.response?.fhe_key_info ?? [];
+
+  return {
+    publicKeyIds: keyInfo
+      .map((info) => info.fhe_public_key?.data_id)
+      .filter((id): id is string => typeof id === "string"),
+    publicParamsId: body?.response?.crs?.["2048"]?.data_id,
+  };
+}
+
+export type PublicKeyStorageGetOptions = {
+  /** Trust cached ids for this long before revalidating them */
+  ttlMs?: number;
+  /** Current key ids of the network; omit to never revalidate */
+  fetchKeyIds?: () => Promise<RelayerKeyIds>;
+  /** Called when the cached ids no longer match the relayer's */
+  onRotation?: (rotation: PublicKeyRotation) => void;
+  now?: () => number;
+};
+
+/**
+ * Read the cached key material of a network, revalidating its ids with the
+ * relayer once its TTL has expired.
+ *
+ * Rotated parts are dropped so the relayer SDK downloads them again.
+ * `upToDate` is false when the caller should write the instance's keys back.
+ */
+export async function publicKeyStorageGet(
+  cache: PublicKeyCache,
+  aclAddress: `0x${string}`,
+  options: PublicKeyStorageGetOptions = {}
+): Promise<{
   publicKey?: FhevmInstanceConfigPublicKey;
   publicParams: FhevmInstanceConfigPublicParams | null;
+  upToDate: boolean;
 }> {
-  const db = await _getDB();
-  if (!db) {
-    return { publicParams: null };
+  const { fetchKeyIds, onRotation, now = Date.now } = options;
+
+  let entry: PublicKeyCacheEntry | null = null;
+  try {
+    entry = await cache.get(aclAddress);
+  } catch {
+    //
   }
 
   let storedPublicKey: FhevmStoredPublicKey | null = null;
   try {
-    const pk = await db.get("publicKeyStore", aclAddress);
-    if (pk?.value) {
-      assertFhevmStoredPublicKey(pk.value);
-      storedPublicKey = pk.value;
+    if (entry?.publicKey) {
+      assertFhevmStoredPublicKey(entry.publicKey);
+      storedPublicKey = entry.publicKey;
     }
   } catch {
     //
@@ -131,15 +154,65 @@ export async function publicKeyStorageGet(aclAddress: `0x${string}`): Promise<{
 
   let storedPublicParams: FhevmStoredPublicParams | null = null;
   try {
-    const pp = await db.get("paramsStore", aclAddress);
-    if (pp?.value) {
-      assertFhevmStoredPublicParams(pp.value);
-      storedPublicParams = pp.value;
+    if (entry?.publicParams) {
+      assertFhevmStoredPublicParams(entry.publicParams);
+      storedPublicParams = entry.publicParams;
     }
   } catch {
     //
   }
 
+  let upToDate = Boolean(storedPublicKey && storedPublicParams);
+
+  // The configured TTL wins over the one stored with the entry
+  const ttlMs = options.ttlMs ?? entry?.ttlMs ?? DEFAULT_PUBLIC_KEY_TTL_MS;
+  const expired = entry?.fetchedAt === undefined || now() - entry.fetchedAt >= ttlMs;
+
+  if (upToDate && expired && fetchKeyIds) {
+    let current: RelayerKeyIds | undefined;
+    try {
+      current = await fetchKeyIds();
+    } catch {
+      // Relayer unreachable: keep using the cached keys
+    }
+
+    if (current) {
+      const keyRotated = !current.publicKeyIds.includes(storedPublicKey!.publicKeyId);
+      const paramsRotated =
+        current.publicParamsId !== undefined &&
+        current.publicParamsId !== storedPublicParams!.publicParamsId;
+
+      if (keyRotated || paramsRotated) {
+        onRotation?.({
+          aclAddress,
+          previous: {
+            publicKeyId: storedPublicKey!.publicKeyId,
+            publicParamsId: storedPublicParams!.publicParamsId,
+          },
+          current: {
+            publicKeyIds: current.publicKeyIds,
+            publicParamsId: current.publicParamsId,
+          },
+        });
+        if (keyRotated) storedPublicKey = null;
+        if (paramsRotated) storedPublicParams = null;
+        upToDate = false;
+      } else {
+        // Still current: trust the cache for another TTL
+        try {
+          await cache.set(aclAddress, {
+            publicKey: storedPublicKey,
+            publicParams: storedPublicParams,
+            fetchedAt: now(),
+            ttlMs,
+          });
+        } catch {
+          //
+        }
+      }
+    }
+  }
+
   const publicKeyData = storedPublicKey?.publicKey;
   const publicKeyId = storedPublicKey?.publicKeyId;
   const publicParams = storedPublicParams
@@ -160,27 +233,50 @@ export async function publicKeyStorageGet(aclAddress: `0x${string}`): Promise<{
   return {
     ...(publicKey !== undefined && { publicKey }),
     publicParams,
+    upToDate,
   };
 }
 
 export async function publicKeyStorageSet(
+  cache: PublicKeyCache,
   aclAddress: `0x${string}`,
   publicKey: FhevmStoredPublicKey | null,
-  publicParams: FhevmStoredPublicParams | null
+  publicParams: FhevmStoredPublicParams | null,
+  options: { ttlMs?: number; now?: () => number } = {}
 ) {
   assertFhevmStoredPublicKey(publicKey);
   assertFhevmStoredPublicParams(publicParams);
 
-  const db = await _getDB();
-  if (!db) {
+  if (!publicKey && !publicParams) {
     return;
   }
 
-  if (publicKey) {
-    await db.put("publicKeyStore", { acl: aclAddress, value: publicKey });
+  const { ttlMs = DEFAULT_PUBLIC_KEY_TTL_MS, now = Date.now } = options;
+
+  try {
+    await cache.set(aclAddress, { publicKey, publicParams, fetchedAt: now(), ttlMs });
+  } catch {
+    // A cache failure must not fail instance creation
   }
+}
 
-  if (publicParams) {
-    await db.put("paramsStore", { acl: aclAddress, value: publicParams });
+/**
+ * Fill the cache from a bundle, unless it already holds key material for
+ * this network. Entries keep the bundle's export time, so they are
+ * revalidated once their TTL has passed.
+ */
+export async function publicKeyStorageSeed(
+  cache: PublicKeyCache,
+  aclAddress: `0x${string}`,
+  entry: PublicKeyCacheEntry
+) {
+  try {
+    const existing = await cache.get(aclAddress);
+    if (existing?.publicKey && existing?.publicParams) {
+      return;
+    }
+    await cache.set(aclAddress, entry);
+  } catch {
+    // Fall back to downloading the keys
   }
 }
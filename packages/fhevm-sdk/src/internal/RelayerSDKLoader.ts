@@ -1,13 +1,24 @@
 import { FhevmRelayerSDKType, FhevmWindowType } from "./fhevmTypes";
 import { SDK_CDN_URL } from "./constants";
+import {
+  getRelayerSDKCdnUrl,
+  isCompatibleRelayerSDKVersion,
+  RELAYER_SDK_VERSION,
+  RelayerSDKLoadError,
+  type RelayerSDKSource,
+} from "../core/sdkSource";
 
 type TraceType = (message?: unknown, ...optionalParams: unknown[]) => void;
 
 export class RelayerSDKLoader {
   private _trace?: TraceType;
+  private _url: string;
+  private _integrity?: string;
 
-  constructor(options?: { trace?: TraceType }) {
+  constructor(options?: { trace?: TraceType; url?: string; integrity?: string }) {
     this._trace = options?.trace;
+    this._url = options?.url ?? SDK_CDN_URL;
+    this._integrity = options?.integrity;
   }
 
   public isLoaded() {
@@ -34,7 +45,7 @@ export class RelayerSDKLoader {
 
     return new Promise((resolve, reject) => {
       const existingScript = document.querySelector(
-        `script[src="${SDK_CDN_URL}"]`
+        `script[src="${this._url}"]`
       );
       if (existingScript) {
         if (!isFhevmWindowType(window, this._trace)) {
@@ -43,23 +54,30 @@ export class RelayerSDKLoader {
               "RelayerSDKLoader: window object does not contain a valid relayerSDK object."
             )
           );
+          return;
         }
         resolve();
         return;
       }
 
       const script = document.createElement("script");
-      script.src = SDK_CDN_URL;
+      script.src = this._url;
       script.type = "text/javascript";
       script.async = true;
+      if (this._integrity) {
+        // The browser refuses to run the script if its hash differs
+        script.integrity = this._integrity;
+        script.crossOrigin = "anonymous";
+      }
 
       script.onload = () => {
         if (!isFhevmWindowType(window, this._trace)) {
           reject(
             new Error(
-              `RelayerSDKLoader: Relayer SDK script has been successfully loaded from ${SDK_CDN_URL}, however, the window.relayerSDK object is invalid.`
+              `RelayerSDKLoader: Relayer SDK script has been successfully loaded from ${this._url}, however, the window.relayerSDK object is invalid.`
             )
           );
+          return;
         }
         resolve();
       };
@@ -67,7 +85,7 @@ export class RelayerSDKLoader {
       script.onerror = () => {
         reject(
           new Error(
-            `RelayerSDKLoader: Failed to load Relayer SDK from ${SDK_CDN_URL}`
+            `RelayerSDKLoader: Failed to load Relayer SDK from ${this._url}`
           )
         );
       };
@@ -77,7 +95,138 @@ export class RelayerSDKLoader {
   }
 }
 
-function isFhevmRelayerSDKType(
+/**
+ * Load the relayer SDK from `source` and check that it is usable
+ *
+ * @throws {RelayerSDKLoadError} If the SDK cannot be loaded, is not a relayer
+ * SDK, or its version is not compatible with `RELAYER_SDK_VERSION`
+ */
+export async function loadRelayerSDK(
+  source: RelayerSDKSource = { type: "npm" },
+  trace?: TraceType
+): Promise<FhevmRelayerSDKType> {
+  let sdk: unknown;
+  let declaredVersion: string | undefined;
+
+  try {
+    if (source.type === "npm") {
+      sdk = typeof window === "undefined" ? await importWebBuild() : await import("@zama-fhe/relayer-sdk/bundle");
+    } else {
+      const url = source.type === "cdn" ? getRelayerSDKCdnUrl(source.version) : source.url;
+      declaredVersion = source.type === "cdn" ? source.version ?? RELAYER_SDK_VERSION : source.version;
+      if (typeof window !== "undefined" && typeof document !== "undefined") {
+        await new RelayerSDKLoader({ trace, url, integrity: source.integrity }).load();
+        sdk = (window as unknown as Partial<FhevmWindowType>).relayerSDK;
+      } else if (isWorkerScope()) {
+        await importWorkerScript(url, source.integrity);
+        sdk = (globalThis as Partial<FhevmWindowType>).relayerSDK;
+      } else {
+        throw new RelayerSDKLoadError(
+          "UNSUPPORTED_ENVIRONMENT",
+          `The "${source.type}" relayer SDK source needs a DOM or a worker; use { type: "npm" } here`
+        );
+      }
+    }
+  } catch (error) {
+    if (error instanceof RelayerSDKLoadError) {
+      throw error;
+    }
+    throw new RelayerSDKLoadError(
+      "LOAD_FAILED",
+      `Failed to load the relayer SDK (${source.type}): ${(error as Error)?.message ?? error}`,
+      { cause: error }
+    );
+  }
+
+  if (!isFhevmRelayerSDKType(sdk, trace)) {
+    throw new RelayerSDKLoadError(
+      "INVALID_SDK",
+      `The relayer SDK loaded from ${source.type} does not export initSDK, createInstance and SepoliaConfig`
+    );
+  }
+
+  // The version the SDK reports wins over the one declared by the source
+  const reportedVersion = (sdk as { version?: unknown }).version;
+  const version = typeof reportedVersion === "string" ? reportedVersion : declaredVersion;
+  if (version !== undefined && !isCompatibleRelayerSDKVersion(version)) {
+    throw new RelayerSDKLoadError(
+      "VERSION_MISMATCH",
+      `Relayer SDK ${version} is not compatible with ${RELAYER_SDK_VERSION}, the version this package is built for`
+    );
+  }
+
+  return sdk;
+}
+
+/**
+ * Import the ES module build of the SDK where there is no `window`
+ *
+ * `@zama-fhe/relayer-sdk/bundle` only re-exports `window.relayerSDK`, and
+ * the web build publishes its WASM bindings on `window` when evaluated, so
+ * a worker scope stands in for it.
+ */
+async function importWebBuild(): Promise<unknown> {
+  const scope = globalThis as { window?: unknown };
+  scope.window ??= globalThis;
+  return import("@zama-fhe/relayer-sdk/web");
+}
+
+/**
+ * Whether this code runs in a worker (classic or module)
+ */
+function isWorkerScope(): boolean {
+  return typeof (globalThis as { importScripts?: unknown }).importScripts === "function";
+}
+
+/**
+ * Run the UMD build at `url` in a worker, which defines `self.relayerSDK`
+ *
+ * Workers have no script tags, so the script is fetched, checked against
+ * `integrity` and imported from a blob URL.
+ */
+async function importWorkerScript(url: string, integrity?: string): Promise<void> {
+  if ((globalThis as Partial<FhevmWindowType>).relayerSDK) {
+    return;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`RelayerSDKLoader: Failed to load Relayer SDK from ${url} (${response.status})`);
+  }
+  const script = await response.arrayBuffer();
+  if (integrity && !(await matchesIntegrity(script, integrity))) {
+    throw new Error(`RelayerSDKLoader: Relayer SDK from ${url} does not match its integrity hash`);
+  }
+
+  const blobUrl = URL.createObjectURL(new Blob([script], { type: "text/javascript" }));
+  try {
+    await import(/* @vite-ignore */ blobUrl);
+  } finally {
+    URL.revokeObjectURL(blobUrl);
+  }
+}
+
+/**
+ * Check `data` against a Subresource Integrity value (`sha384-...`); any of
+ * several space-separated hashes may match
+ */
+async function matchesIntegrity(data: ArrayBuffer, integrity: string): Promise<boolean> {
+  const algorithms: Record<string, string> = { sha256: "SHA-256", sha384: "SHA-384", sha512: "SHA-512" };
+  for (const token of integrity.trim().split(/\s+/)) {
+    const [prefix, expected] = token.split(/-(.*)/s);
+    const algorithm = algorithms[prefix];
+    if (!algorithm || !expected) {
+      continue;
+    }
+    const digest = new Uint8Array(await crypto.subtle.digest(algorithm, data));
+    if (btoa(String.fromCharCode(...digest)) === expected) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function isFhevmRelayerSDKType(
   o: unknown,
   trace?: TraceType
 ): o is FhevmRelayerSDKType {
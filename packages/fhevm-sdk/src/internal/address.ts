@@ -0,0 +1,21 @@
+/**
+ * EIP-55 address checksums, computed synchronously so that decrypted
+ * addresses can be formatted without loading ethers or viem.
+ */
+
+import { keccak_256 } from "@noble/hashes/sha3";
+
+/**
+ * EIP-55 checksummed form of a 20-byte hex address
+ */
+export function toChecksumAddress(address: string): `0x${string}` {
+  const lower = address.toLowerCase().replace(/^0x/, "");
+  const hash = keccak_256(new TextEncoder().encode(lower));
+
+  let checksummed = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+    checksummed += nibble >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed as `0x${string}`;
+}
@@ -1,2 +1,5 @@
-export const SDK_CDN_URL =
-  "https://cdn.zama.ai/relayer-sdk-js/0.3.0/relayer-sdk-js.umd.cjs";
+import { getRelayerSDKCdnUrl } from "../core/sdkSource";
+
+// Follows RELAYER_SDK_VERSION, the npm version we depend on. This used to
+// hard-code the 0.3.0 CDN build, which fails the version check against 0.2.
+export const SDK_CDN_URL = getRelayerSDKCdnUrl();
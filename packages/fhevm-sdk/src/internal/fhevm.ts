@@ -1,12 +1,30 @@
-import { isAddress, Eip1193Provider, JsonRpcProvider } from "ethers";
+import type { Eip1193Provider } from "ethers";
 import type {
   FhevmInitSDKOptions,
   FhevmInitSDKType,
   FhevmLoadSDKType,
   FhevmWindowType,
 } from "./fhevmTypes";
-import { publicKeyStorageGet, publicKeyStorageSet } from "./PublicKeyStorage";
+import {
+  fetchRelayerKeyIds,
+  publicKeyStorageGet,
+  publicKeyStorageSeed,
+  publicKeyStorageSet,
+  type PublicKeyRotation,
+} from "./PublicKeyStorage";
+import type { PublicKeyBundle } from "../core/keyBundle";
+import { getDefaultPublicKeyCache, type PublicKeyCache } from "../storage/PublicKeyCache";
 import { FhevmInstance, FhevmInstanceConfig } from "../fhevmTypes";
+import { FhevmNetworkRegistry, type FhevmNetworkConfig } from "../core/networks";
+import { FhevmAbortError } from "../core/abort";
+import { isAddress, jsonRpcRequest } from "./rpc";
+import { loadRelayerSDK } from "./RelayerSDKLoader";
+import type { RelayerSDKSource } from "../core/sdkSource";
+import {
+  hasRelayerTransportOptions,
+  registerRelayerTransport,
+  type RelayerTransportOptions,
+} from "./relayerTransport";
 
 export class FhevmReactError extends Error {
   code: string;
@@ -25,18 +43,33 @@ function throwFhevmError(
   throw new FhevmReactError(code, message, cause ? { cause } : undefined);
 }
 
-// Store SDK module globally to avoid re-importing
+// Store SDK module globally to avoid re-importing. Every client (including
+// the ones created by FHEVMClientManager) shares the same loaded module.
 let relayerSDKModule: any = null;
 let sdkInitialized = false;
+// In-flight load/init, so that clients initializing concurrently wait for
+// the same import and call initSDK only once
+let sdkLoadPromise: Promise<any> | null = null;
+let sdkInitPromise: Promise<boolean> | null = null;
 
-const fhevmLoadSDK = async () => {
+const fhevmLoadSDK = async (source?: RelayerSDKSource) => {
   if (relayerSDKModule) {
     return relayerSDKModule;
   }
 
-  // Use npm package instead of CDN
-  relayerSDKModule = await import('@zama-fhe/relayer-sdk/bundle');
-  return relayerSDKModule;
+  if (!sdkLoadPromise) {
+    sdkLoadPromise = loadRelayerSDK(source).then(
+      (module) => {
+        relayerSDKModule = module;
+        return module;
+      },
+      (error) => {
+        sdkLoadPromise = null;
+        throw error;
+      }
+    );
+  }
+  return sdkLoadPromise;
 };
 
 const fhevmInitSDK = async (options?: FhevmInitSDKOptions) => {
@@ -48,9 +81,19 @@ const fhevmInitSDK = async (options?: FhevmInitSDKOptions) => {
     throw new Error("SDK not loaded. Call fhevmLoadSDK first.");
   }
 
-  await relayerSDKModule.initSDK(options);
-  sdkInitialized = true;
-  return true;
+  if (!sdkInitPromise) {
+    sdkInitPromise = Promise.resolve(relayerSDKModule.initSDK(options)).then(
+      () => {
+        sdkInitialized = true;
+        return true;
+      },
+      (error: unknown) => {
+        sdkInitPromise = null;
+        throw error;
+      }
+    );
+  }
+  return sdkInitPromise;
 };
 
 function checkIsAddress(a: unknown): a is `0x${string}` {
@@ -63,35 +106,30 @@ function checkIsAddress(a: unknown): a is `0x${string}` {
   return true;
 }
 
-export class FhevmAbortError extends Error {
-  constructor(message = "FHEVM operation was cancelled") {
-    super(message);
-    this.name = "FhevmAbortError";
-  }
-}
+export { FhevmAbortError };
 
-type FhevmRelayerStatusType =
+export type FhevmInitPhase =
   | "sdk-loading"
   | "sdk-loaded"
   | "sdk-initializing"
   | "sdk-initialized"
   | "creating";
 
+type FhevmRelayerStatusType = FhevmInitPhase;
+
 async function getChainId(
   providerOrUrl: Eip1193Provider | string
 ): Promise<number> {
-  if (typeof providerOrUrl === "string") {
-    const provider = new JsonRpcProvider(providerOrUrl);
-    return Number((await provider.getNetwork()).chainId);
-  }
-  const chainId = await providerOrUrl.request({ method: "eth_chainId" });
+  const chainId =
+    typeof providerOrUrl === "string"
+      ? await jsonRpcRequest<string>(providerOrUrl, "eth_chainId")
+      : await providerOrUrl.request({ method: "eth_chainId" });
   return Number.parseInt(chainId as string, 16);
 }
 
 async function getWeb3Client(rpcUrl: string) {
-  const rpc = new JsonRpcProvider(rpcUrl);
   try {
-    const version = await rpc.send("web3_clientVersion", []);
+    const version = await jsonRpcRequest(rpcUrl, "web3_clientVersion");
     return version;
   } catch (e) {
     throwFhevmError(
@@ -99,8 +137,6 @@ async function getWeb3Client(rpcUrl: string) {
       `The URL ${rpcUrl} is not a Web3 node or is not reachable. Please check the endpoint.`,
       e
     );
-  } finally {
-    rpc.destroy();
   }
 }
 
@@ -160,9 +196,8 @@ async function tryFetchFHEVMHardhatNodeRelayerMetadata(rpcUrl: string): Promise<
 }
 
 async function getFHEVMRelayerMetadata(rpcUrl: string) {
-  const rpc = new JsonRpcProvider(rpcUrl);
   try {
-    const version = await rpc.send("fhevm_relayer_metadata", []);
+    const version = await jsonRpcRequest<any>(rpcUrl, "fhevm_relayer_metadata");
     return version;
   } catch (e) {
     throwFhevmError(
@@ -170,8 +205,6 @@ async function getFHEVMRelayerMetadata(rpcUrl: string) {
       `The URL ${rpcUrl} is not a FHEVM Hardhat node or is not reachable. Please check the endpoint.`,
       e
     );
-  } finally {
-    rpc.destroy();
   }
 }
 
@@ -214,6 +247,33 @@ export const createFhevmInstance = async (parameters: {
   signal: AbortSignal;
   onStatusChange?: (status: FhevmRelayerStatusType) => void;
   chainId?: number;
+  networks?: FhevmNetworkRegistry;
+  /**
+   * Relayer endpoint and transport overrides. The transport stays registered
+   * until `signal` is aborted.
+   */
+  /** `observeRetryAfter` routes relayer requests to record 429 `Retry-After` headers */
+  relayer?: RelayerTransportOptions & { url?: string; observeRetryAfter?: boolean };
+  /** Cache for the public key and CRS (default: IndexedDB, else in-memory) */
+  publicKeyCache?: PublicKeyCache;
+  /** How long cached key ids are trusted before revalidating them with the relayer */
+  publicKeyTtlMs?: number;
+  /** Called when the cached key ids no longer match the relayer's */
+  onKeyRotation?: (rotation: PublicKeyRotation & { chainId: number }) => void;
+  /** Seeds the key cache when it is empty; ignored on other networks */
+  publicKeyBundle?: PublicKeyBundle;
+  /** Called with the resolved network (not in mock mode) */
+  onNetwork?: (network: FhevmNetworkConfig) => void;
+  /**
+   * Options of the relayer SDK's `initSDK`. The SDK is initialized once per
+   * page or process, so only the first instance's options apply.
+   */
+  initSDK?: FhevmInitSDKOptions;
+  /**
+   * Where to load the relayer SDK from (default: npm). Like `initSDK`,
+   * only the first instance's source applies.
+   */
+  sdkSource?: RelayerSDKSource;
 }): Promise<FhevmInstance> => {
   const throwIfAborted = () => {
     if (signal.aborted) throw new FhevmAbortError();
@@ -229,6 +289,15 @@ export const createFhevmInstance = async (parameters: {
     provider: providerOrUrl,
     mockChains,
     chainId: explicitChainId,
+    networks = new FhevmNetworkRegistry(),
+    relayer,
+    publicKeyCache = getDefaultPublicKeyCache(),
+    publicKeyTtlMs,
+    onKeyRotation,
+    publicKeyBundle,
+    onNetwork,
+    initSDK,
+    sdkSource,
   } = parameters;
 
   // Resolve chainId
@@ -266,28 +335,67 @@ export const createFhevmInstance = async (parameters: {
 
   throwIfAborted();
 
-  // Load SDK from npm package
+  // Throws a FhevmNetworkError if the chain is not registered
+  const network = networks.get(chainId);
+  const relayerUrl = relayer?.url ?? network.relayerUrl;
+
+  if (hasRelayerTransportOptions(relayer) || relayer?.observeRetryAfter) {
+    // Route key download, input proofs and decryption requests through the
+    // configured headers/fetch for as long as this instance is in use
+    const unregister = registerRelayerTransport(relayerUrl, relayer!);
+    if (signal.aborted) {
+      unregister();
+    } else {
+      signal.addEventListener("abort", unregister, { once: true });
+    }
+  }
+
   notify("sdk-loading");
-  const sdk = await fhevmLoadSDK();
+  const sdk = await fhevmLoadSDK(sdkSource);
   throwIfAborted();
   notify("sdk-loaded");
 
   // Initialize SDK
   notify("sdk-initializing");
-  await fhevmInitSDK();
+  await fhevmInitSDK(initSDK);
   throwIfAborted();
   notify("sdk-initialized");
 
-  const aclAddress = sdk.SepoliaConfig.aclContractAddress;
+  const aclAddress = network.aclContractAddress;
   if (!checkIsAddress(aclAddress)) {
     throw new Error(`Invalid address: ${aclAddress}`);
   }
 
-  const pub = await publicKeyStorageGet(aclAddress);
+  onNetwork?.(network);
+
+  if (
+    publicKeyBundle &&
+    publicKeyBundle.chainId === chainId &&
+    publicKeyBundle.aclAddress.toLowerCase() === aclAddress.toLowerCase()
+  ) {
+    await publicKeyStorageSeed(publicKeyCache, aclAddress, {
+      publicKey: publicKeyBundle.publicKey,
+      publicParams: publicKeyBundle.publicParams,
+      fetchedAt: publicKeyBundle.createdAt,
+    });
+  }
+
+  const pub = await publicKeyStorageGet(publicKeyCache, aclAddress, {
+    ttlMs: publicKeyTtlMs,
+    fetchKeyIds: () => fetchRelayerKeyIds(relayerUrl),
+    onRotation: (rotation) => onKeyRotation?.({ ...rotation, chainId }),
+  });
   throwIfAborted();
 
   const config: FhevmInstanceConfig = {
-    ...sdk.SepoliaConfig,
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    relayerUrl,
     network: providerOrUrl,
     publicKey: pub.publicKey,
     publicParams: pub.publicParams,
@@ -299,11 +407,15 @@ export const createFhevmInstance = async (parameters: {
   const instance = await sdk.createInstance(config);
 
   // Save the key even if aborted
-  await publicKeyStorageSet(
-    aclAddress,
-    instance.getPublicKey(),
-    instance.getPublicParams(2048)
-  );
+  if (!pub.upToDate) {
+    await publicKeyStorageSet(
+      publicKeyCache,
+      aclAddress,
+      instance.getPublicKey(),
+      instance.getPublicParams(2048),
+      { ttlMs: publicKeyTtlMs }
+    );
+  }
 
   throwIfAborted();
 
@@ -0,0 +1,182 @@
+/**
+ * Relayer request routing.
+ *
+ * The relayer SDK calls the global `fetch` for every relayer request
+ * (key download, input proof, user/public decryption) and only supports a
+ * single auth header. To honour per-client headers and custom fetch
+ * functions, we install one global `fetch` dispatcher that routes requests
+ * by relayer base URL. Requests to any other URL go to the original `fetch`.
+ *
+ * A request cannot be traced back to the instance that made it, so all
+ * instances on one relayer URL share its route: registering different
+ * headers or fetch for a URL that already has a route is rejected. A route
+ * without headers or fetch only observes responses and joins any route.
+ *
+ * The `Retry-After` header of a 429 response is moved into the fragment of
+ * the response's `url`, which the relayer SDK copies into the `cause` of
+ * the error it throws for that call (see `getRelayerRetryAfter`).
+ */
+
+export type RelayerFetch = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>;
+
+export type RelayerTransportOptions = {
+  /** Extra headers added to every relayer request */
+  headers?: Record<string, string>;
+  /** Fetch implementation used for relayer requests */
+  fetch?: RelayerFetch;
+};
+
+type RelayerRoute = RelayerTransportOptions & { id: number };
+
+const routes = new Map<string, RelayerRoute[]>();
+const RETRY_AFTER_FRAGMENT = "retry-after=";
+let nextRouteId = 0;
+let originalFetch: RelayerFetch | undefined;
+let unboundOriginalFetch: typeof globalThis.fetch | undefined;
+
+function normalizeBaseUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+function findRoute(url: string): RelayerRoute | undefined {
+  let best: { base: string; route: RelayerRoute } | undefined;
+  for (const [base, entries] of routes) {
+    if (entries.length === 0) continue;
+    if (url !== base && !url.startsWith(`${base}/`)) continue;
+    if (!best || base.length > best.base.length) {
+      // Routes of one base with options have the same options
+      best = { base, route: entries.find(hasRelayerTransportOptions) ?? entries[0] };
+    }
+  }
+  return best?.route;
+}
+
+function sameTransport(a: RelayerTransportOptions, b: RelayerTransportOptions): boolean {
+  const headers = (options: RelayerTransportOptions) => {
+    const entries: string[] = [];
+    new Headers(options.headers).forEach((value, key) => entries.push(`${key}: ${value}`));
+    return entries.sort().join("\n");
+  };
+  return a.fetch === b.fetch && headers(a) === headers(b);
+}
+
+const relayerFetch: RelayerFetch = (input, init) => {
+  const route = findRoute(requestUrl(input));
+  const baseFetch = originalFetch as RelayerFetch;
+  if (!route) {
+    return baseFetch(input, init);
+  }
+
+  const headers = new Headers(
+    typeof Request !== "undefined" && input instanceof Request ? input.headers : undefined
+  );
+  new Headers(init?.headers).forEach((value, key) => headers.set(key, value));
+  for (const [key, value] of Object.entries(route.headers ?? {})) {
+    headers.set(key, value);
+  }
+
+  return (route.fetch ?? baseFetch)(input, { ...init, headers }).then((response) => {
+    const retryAfter = response.headers.get("retry-after");
+    if (response.status === 429 && retryAfter) {
+      const url = new URL(response.url || requestUrl(input));
+      url.hash = RETRY_AFTER_FRAGMENT + encodeURIComponent(retryAfter);
+      // Becomes the `url` of the relayer SDK's error cause for this call
+      Object.defineProperty(response, "url", { value: url.href });
+    }
+    return response;
+  });
+};
+
+function installDispatcher(): void {
+  if (originalFetch) {
+    return;
+  }
+  if (typeof globalThis.fetch !== "function") {
+    throw new Error("Relayer transport requires a global fetch implementation.");
+  }
+  unboundOriginalFetch = globalThis.fetch;
+  originalFetch = globalThis.fetch.bind(globalThis);
+  globalThis.fetch = relayerFetch as typeof globalThis.fetch;
+}
+
+function uninstallDispatcherIfIdle(): void {
+  if (!originalFetch) {
+    return;
+  }
+  for (const entries of routes.values()) {
+    if (entries.length > 0) return;
+  }
+  // Only restore if nobody wrapped fetch after us
+  if (globalThis.fetch === (relayerFetch as typeof globalThis.fetch)) {
+    globalThis.fetch = unboundOriginalFetch as typeof globalThis.fetch;
+    originalFetch = undefined;
+    unboundOriginalFetch = undefined;
+  }
+}
+
+/**
+ * Route every request under `relayerUrl` through the given transport options.
+ * Without headers or fetch the route only records `Retry-After` headers.
+ *
+ * @returns A function that removes the route again
+ * @throws {Error} If `relayerUrl` is already routed with other headers or fetch
+ */
+export function registerRelayerTransport(
+  relayerUrl: string,
+  options: RelayerTransportOptions
+): () => void {
+  const base = normalizeBaseUrl(relayerUrl);
+  const entries = routes.get(base) ?? [];
+  const configured = entries.find(hasRelayerTransportOptions);
+  if (configured && hasRelayerTransportOptions(options) && !sameTransport(configured, options)) {
+    throw new Error(
+      `Relayer ${base} is already used with other relayerHeaders or relayerFetch. ` +
+        `Clients of the same relayer must share these options.`
+    );
+  }
+
+  installDispatcher();
+
+  const route: RelayerRoute = { ...options, id: nextRouteId++ };
+  entries.push(route);
+  routes.set(base, entries);
+
+  let registered = true;
+  return () => {
+    if (!registered) return;
+    registered = false;
+    const current = routes.get(base) ?? [];
+    const remaining = current.filter((r) => r.id !== route.id);
+    if (remaining.length > 0) {
+      routes.set(base, remaining);
+    } else {
+      routes.delete(base);
+    }
+    uninstallDispatcherIfIdle();
+  };
+}
+
+/**
+ * `Retry-After` header of the 429 response whose `url` (e.g. from the relayer
+ * SDK's error cause) is given. Only requests routed by
+ * `registerRelayerTransport` carry it.
+ */
+export function getRelayerRetryAfter(url: string): string | undefined {
+  const hash = url.indexOf("#" + RETRY_AFTER_FRAGMENT);
+  return hash === -1 ? undefined : decodeURIComponent(url.slice(hash + 1 + RETRY_AFTER_FRAGMENT.length));
+}
+
+export function hasRelayerTransportOptions(options?: RelayerTransportOptions): boolean {
+  return Boolean(
+    options && (options.fetch || (options.headers && Object.keys(options.headers).length > 0))
+  );
+}
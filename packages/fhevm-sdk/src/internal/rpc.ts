@@ -0,0 +1,37 @@
+/**
+ * Minimal JSON-RPC over HTTP.
+ *
+ * Used for the few node queries made while creating an instance (chain id,
+ * client version, FHEVM Hardhat metadata), so that this path does not need
+ * an ethers or viem provider.
+ */
+
+let nextRequestId = 1;
+
+export async function jsonRpcRequest<T = unknown>(
+  url: string,
+  method: string,
+  params: unknown[] = []
+): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: nextRequestId++, method, params }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`JSON-RPC ${method} failed with HTTP ${response.status}`);
+  }
+
+  const body = await response.json();
+  if (body?.error) {
+    throw new Error(body.error.message ?? `JSON-RPC ${method} failed`, {
+      cause: body.error,
+    });
+  }
+  return body?.result as T;
+}
+
+export function isAddress(value: unknown): value is `0x${string}` {
+  return typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
@@ -0,0 +1,23 @@
+/**
+ * Deterministic bytes for in-memory handles, keys and fake signatures.
+ * Not a cryptographic hash: distinct seeds only need distinct bytes.
+ */
+
+/**
+ * `length` bytes derived from `seed` with FNV-1a, one 32-bit word per
+ * 4 bytes
+ */
+export function seedBytes(seed: string, length = 32): Uint8Array {
+  const data = new TextEncoder().encode(seed);
+  const out = new Uint8Array(length);
+  for (let word = 0; word * 4 < length; word++) {
+    let h = 0x811c9dc5 ^ word;
+    for (const byte of data) {
+      h = Math.imul(h ^ byte, 0x01000193);
+    }
+    for (let i = 0; i < 4 && word * 4 + i < length; i++) {
+      out[word * 4 + i] = (h >>> (i * 8)) & 0xff;
+    }
+  }
+  return out;
+}
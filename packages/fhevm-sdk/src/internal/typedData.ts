@@ -0,0 +1,39 @@
+/**
+ * EIP-712 hashing used for decryption signature storage keys.
+ *
+ * The default implementation loads ethers on first use. A client configured
+ * with `typedDataHasher` (e.g. by `uni-fhevm-sdk/viem`) registers it for its
+ * instance, so that keys of that instance are hashed without ethers.
+ */
+
+import type { FhevmTypedDataDomain, FhevmTypedDataTypes } from "../core/signer";
+
+export type TypedDataHasher = (
+  domain: FhevmTypedDataDomain,
+  types: FhevmTypedDataTypes,
+  message: Record<string, unknown>
+) => string | Promise<string>;
+
+const ethersHasher: TypedDataHasher = async (domain, types, message) => {
+  const { TypedDataEncoder } = await import("ethers");
+  return TypedDataEncoder.hash(domain, types, message);
+};
+
+const instanceHashers = new WeakMap<object, TypedDataHasher>();
+
+/**
+ * Hash the storage keys of `instance` with `hasher`
+ */
+export function setInstanceTypedDataHasher(instance: object, hasher: TypedDataHasher): void {
+  instanceHashers.set(instance, hasher);
+}
+
+export async function hashTypedData(
+  domain: FhevmTypedDataDomain,
+  types: FhevmTypedDataTypes,
+  message: Record<string, unknown>,
+  instance?: object
+): Promise<string> {
+  const hasher = (instance && instanceHashers.get(instance)) || ethersHasher;
+  return hasher(domain, types, message);
+}
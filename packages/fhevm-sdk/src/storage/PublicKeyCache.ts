@@ -0,0 +1,266 @@
+import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+
+/**
+ * FHE public key, as returned by `instance.getPublicKey()`
+ */
+export type StoredPublicKey = {
+  publicKeyId: string;
+  publicKey: Uint8Array;
+};
+
+/**
+ * CRS (public params), as returned by `instance.getPublicParams(2048)`
+ */
+export type StoredPublicParams = {
+  publicParamsId: string;
+  publicParams: Uint8Array;
+};
+
+/**
+ * Cached key material of one network, keyed by its ACL contract address
+ */
+export type PublicKeyCacheEntry = {
+  publicKey: StoredPublicKey | null;
+  publicParams: StoredPublicParams | null;
+  /** When the key ids were last fetched or confirmed with the relayer (Unix ms) */
+  fetchedAt?: number;
+  /** How long after `fetchedAt` the ids are trusted without asking the relayer */
+  ttlMs?: number;
+};
+
+/**
+ * Cache for the FHE public key and CRS, which the relayer SDK otherwise
+ * downloads (several MB) every time an instance is created.
+ *
+ * Implement this interface to use any other backend (Redis, S3, ...).
+ */
+export interface PublicKeyCache {
+  get(aclAddress: `0x${string}`): PublicKeyCacheEntry | null | Promise<PublicKeyCacheEntry | null>;
+  set(aclAddress: `0x${string}`, entry: PublicKeyCacheEntry): void | Promise<void>;
+  remove(aclAddress: `0x${string}`): void | Promise<void>;
+}
+
+export class PublicKeyInMemoryCache implements PublicKeyCache {
+  #store = new Map<string, PublicKeyCacheEntry>();
+
+  get(aclAddress: `0x${string}`): PublicKeyCacheEntry | null {
+    return this.#store.get(aclAddress.toLowerCase()) ?? null;
+  }
+  set(aclAddress: `0x${string}`, entry: PublicKeyCacheEntry): void {
+    this.#store.set(aclAddress.toLowerCase(), entry);
+  }
+  remove(aclAddress: `0x${string}`): void {
+    this.#store.delete(aclAddress.toLowerCase());
+  }
+}
+
+interface PublicParamsDB extends DBSchema {
+  publicKeyStore: {
+    key: string;
+    value: {
+      acl: `0x${string}`;
+      value: StoredPublicKey;
+      fetchedAt?: number;
+      ttlMs?: number;
+    };
+  };
+  paramsStore: {
+    key: string;
+    value: {
+      acl: `0x${string}`;
+      value: StoredPublicParams;
+    };
+  };
+}
+
+/**
+ * Browser cache in the `fhevm` IndexedDB database
+ */
+export class PublicKeyIndexedDBCache implements PublicKeyCache {
+  #dbPromise: Promise<IDBPDatabase<PublicParamsDB>> | undefined;
+
+  constructor(private dbName = "fhevm") {}
+
+  /**
+   * Whether IndexedDB exists in this environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  private getDB(): Promise<IDBPDatabase<PublicParamsDB>> {
+    if (!this.#dbPromise) {
+      this.#dbPromise = openDB<PublicParamsDB>(this.dbName, 1, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains("paramsStore")) {
+            db.createObjectStore("paramsStore", { keyPath: "acl" });
+          }
+          if (!db.objectStoreNames.contains("publicKeyStore")) {
+            db.createObjectStore("publicKeyStore", { keyPath: "acl" });
+          }
+        },
+      });
+    }
+    return this.#dbPromise;
+  }
+
+  async get(aclAddress: `0x${string}`): Promise<PublicKeyCacheEntry | null> {
+    const db = await this.getDB();
+    const [pk, pp] = await Promise.all([
+      db.get("publicKeyStore", aclAddress),
+      db.get("paramsStore", aclAddress),
+    ]);
+    if (!pk && !pp) {
+      return null;
+    }
+    return {
+      publicKey: pk?.value ?? null,
+      publicParams: pp?.value ?? null,
+      fetchedAt: pk?.fetchedAt,
+      ttlMs: pk?.ttlMs,
+    };
+  }
+
+  async set(aclAddress: `0x${string}`, entry: PublicKeyCacheEntry): Promise<void> {
+    const db = await this.getDB();
+    if (entry.publicKey) {
+      await db.put("publicKeyStore", {
+        acl: aclAddress,
+        value: entry.publicKey,
+        fetchedAt: entry.fetchedAt,
+        ttlMs: entry.ttlMs,
+      });
+    }
+    if (entry.publicParams) {
+      await db.put("paramsStore", { acl: aclAddress, value: entry.publicParams });
+    }
+  }
+
+  async remove(aclAddress: `0x${string}`): Promise<void> {
+    const db = await this.getDB();
+    await db.delete("publicKeyStore", aclAddress);
+    await db.delete("paramsStore", aclAddress);
+  }
+}
+
+type FileSystemCacheMeta = {
+  publicKeyId?: string;
+  publicParamsId?: string;
+  fetchedAt?: number;
+  ttlMs?: number;
+};
+
+/**
+ * Node.js cache in a directory, shared by every process that points to it
+ * (backend workers, CLI runs, CI jobs).
+ *
+ * Each network is stored as `<acl>.json` (key ids and timestamp) next to
+ * `<acl>.publicKey.bin` and `<acl>.publicParams.bin`.
+ *
+ * @example
+ * ```typescript
+ * const client = new FHEVMClient({
+ *   provider: 'https://rpc.sepolia.org',
+ *   chainId: 11155111,
+ *   publicKeyCache: new PublicKeyFileSystemCache('.cache/fhevm'),
+ * });
+ * ```
+ */
+export class PublicKeyFileSystemCache implements PublicKeyCache {
+  constructor(private directory: string) {}
+
+  private async paths(aclAddress: `0x${string}`) {
+    const { join } = await import("node:path");
+    const base = join(this.directory, aclAddress.toLowerCase());
+    return {
+      meta: `${base}.json`,
+      publicKey: `${base}.publicKey.bin`,
+      publicParams: `${base}.publicParams.bin`,
+    };
+  }
+
+  async get(aclAddress: `0x${string}`): Promise<PublicKeyCacheEntry | null> {
+    const fs = await import("node:fs/promises");
+    const paths = await this.paths(aclAddress);
+
+    let meta: FileSystemCacheMeta;
+    try {
+      meta = JSON.parse(await fs.readFile(paths.meta, "utf8"));
+    } catch {
+      return null;
+    }
+
+    const read = async (path: string) => new Uint8Array(await fs.readFile(path));
+
+    return {
+      publicKey: meta.publicKeyId
+        ? { publicKeyId: meta.publicKeyId, publicKey: await read(paths.publicKey) }
+        : null,
+      publicParams: meta.publicParamsId
+        ? { publicParamsId: meta.publicParamsId, publicParams: await read(paths.publicParams) }
+        : null,
+      fetchedAt: meta.fetchedAt,
+      ttlMs: meta.ttlMs,
+    };
+  }
+
+  async set(aclAddress: `0x${string}`, entry: PublicKeyCacheEntry): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const paths = await this.paths(aclAddress);
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file and rename, so that concurrent readers
+    // never see a partial file
+    const write = async (path: string, data: Uint8Array | string) => {
+      const tmp = `${path}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, data);
+      await fs.rename(tmp, path);
+    };
+
+    if (entry.publicKey) {
+      await write(paths.publicKey, entry.publicKey.publicKey);
+    }
+    if (entry.publicParams) {
+      await write(paths.publicParams, entry.publicParams.publicParams);
+    }
+
+    let previous: FileSystemCacheMeta = {};
+    try {
+      previous = JSON.parse(await fs.readFile(paths.meta, "utf8"));
+    } catch {
+      // First write
+    }
+
+    // Ids last: the binaries they point to are already in place
+    await write(
+      paths.meta,
+      JSON.stringify({
+        publicKeyId: entry.publicKey?.publicKeyId ?? previous.publicKeyId,
+        publicParamsId: entry.publicParams?.publicParamsId ?? previous.publicParamsId,
+        fetchedAt: entry.fetchedAt,
+        ttlMs: entry.ttlMs,
+      })
+    );
+  }
+
+  async remove(aclAddress: `0x${string}`): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const paths = await this.paths(aclAddress);
+    await Promise.all(Object.values(paths).map(path => fs.rm(path, { force: true })));
+  }
+}
+
+let defaultCache: PublicKeyCache | undefined;
+
+/**
+ * Cache used when the client config sets none: IndexedDB in browsers,
+ * otherwise a process-wide in-memory cache
+ */
+export function getDefaultPublicKeyCache(): PublicKeyCache {
+  if (!defaultCache) {
+    defaultCache = PublicKeyIndexedDBCache.isSupported()
+      ? new PublicKeyIndexedDBCache()
+      : new PublicKeyInMemoryCache();
+  }
+  return defaultCache;
+}
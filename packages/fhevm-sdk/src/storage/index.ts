@@ -1,2 +1,3 @@
 export * from "./GenericStringStorage";
 
+export * from "./PublicKeyCache";
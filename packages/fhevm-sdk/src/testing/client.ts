@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Ready clients backed by an in-memory instance
+ * @module @fhevm-sdk/testing/client
+ */
+
+import { FHEVMClient, type FHEVMClientConfig } from "../core/client";
+import { InMemoryFhevmInstance, type InMemoryFhevmInstanceOptions } from "../core/memoryInstance";
+import { FakeTypedDataSigner, RecordingStringStorage } from "./fakes";
+import { setMatcherInstance } from "./matchers";
+
+/**
+ * Test client options: client config (provider optional) and in-memory
+ * instance options
+ */
+export interface TestClientOptions
+  extends Partial<Omit<FHEVMClientConfig, "instance">>,
+    InMemoryFhevmInstanceOptions {
+  /** Address of the fake signer (default: `TEST_USER_ADDRESS`) */
+  userAddress?: `0x${string}`;
+}
+
+/**
+ * A ready client and the fakes behind it
+ */
+export interface FhevmTestContext {
+  client: FHEVMClient;
+  instance: InMemoryFhevmInstance;
+  signer: FakeTypedDataSigner;
+
+  /** The client's signature storage */
+  storage: RecordingStringStorage;
+}
+
+/**
+ * Create and initialize a client on a new `InMemoryFhevmInstance`
+ *
+ * The instance also becomes the default of the `toDecryptTo` matcher.
+ *
+ * @example
+ * ```typescript
+ * const { client, instance, signer } = await createTestClient();
+ * const { handles } = await client.encrypt((input) => input.add64(42n), {
+ *   contractAddress: TEST_CONTRACT_ADDRESS,
+ *   userAddress: signer.address,
+ * });
+ * expect(handles[0]).toDecryptTo(42n);
+ * ```
+ */
+export async function createTestClient(options: TestClientOptions = {}): Promise<FhevmTestContext> {
+  const { chainId, enforceAcl, userAddress, ...config } = options;
+  const instance = new InMemoryFhevmInstance({ chainId, enforceAcl });
+  const signer = new FakeTypedDataSigner(userAddress);
+  const storage = new RecordingStringStorage();
+
+  const client = new FHEVMClient({
+    provider: "http://localhost:8545",
+    signatureStorage: storage,
+    ...config,
+    chainId: instance.chainId,
+    instance,
+  });
+  await client.init();
+
+  setMatcherInstance(instance);
+  return { client, instance, signer, storage };
+}
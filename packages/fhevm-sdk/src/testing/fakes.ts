@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Fake signer and storage for tests
+ * @module @fhevm-sdk/testing/fakes
+ */
+
+import type { FhevmTypedDataDomain, FhevmTypedDataSigner, FhevmTypedDataTypes } from "../core/signer";
+import { GenericStringInMemoryStorage } from "../storage/GenericStringStorage";
+import { seedBytes } from "../internal/seedBytes";
+
+/**
+ * Account used by fakes and fixtures when no address is given
+ */
+export const TEST_USER_ADDRESS: `0x${string}` = "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359";
+
+/**
+ * Contract used by fixtures when no address is given
+ */
+export const TEST_CONTRACT_ADDRESS: `0x${string}` = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+/**
+ * Typed data passed to `FakeTypedDataSigner.signTypedData`
+ */
+export interface TypedDataSignRequest {
+  domain: FhevmTypedDataDomain;
+  types: FhevmTypedDataTypes;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Signer that records sign requests and returns deterministic signatures
+ *
+ * The signatures are not valid ECDSA signatures; they only pass the
+ * in-memory instance and mocked relayers.
+ *
+ * @example
+ * ```typescript
+ * const signer = new FakeTypedDataSigner();
+ * await client.decrypt(requests, signer);
+ * expect(signer.requests).toHaveLength(1);
+ *
+ * signer.rejectWith = new Error('User rejected the request');
+ * ```
+ */
+export class FakeTypedDataSigner implements FhevmTypedDataSigner {
+  /** Every sign request, in order */
+  readonly requests: TypedDataSignRequest[] = [];
+
+  /** Fail the next sign requests with this error, like a wallet rejection */
+  rejectWith?: Error;
+
+  constructor(readonly address: `0x${string}` = TEST_USER_ADDRESS) {}
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTypedData(
+    domain: FhevmTypedDataDomain,
+    types: FhevmTypedDataTypes,
+    message: Record<string, unknown>
+  ): Promise<string> {
+    this.requests.push({ domain, types, message });
+    if (this.rejectWith) {
+      throw this.rejectWith;
+    }
+
+    const payload = JSON.stringify([this.address, domain, types, message], (_, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    );
+    const hex = Array.from(seedBytes(payload, 64), (b) => b.toString(16).padStart(2, "0")).join("");
+    return `0x${hex}1b`;
+  }
+}
+
+/**
+ * Access to a `RecordingStringStorage`
+ */
+export interface StorageAccess {
+  method: "getItem" | "setItem" | "removeItem";
+  key: string;
+  /** Value written by `setItem` */
+  value?: string;
+}
+
+/**
+ * In-memory storage that records every access, e.g. to check that
+ * decryption signatures are cached and reused
+ */
+export class RecordingStringStorage extends GenericStringInMemoryStorage {
+  /** Every access, in order */
+  readonly accesses: StorageAccess[] = [];
+
+  getItem(key: string): string | Promise<string | null> | null {
+    this.accesses.push({ method: "getItem", key });
+    return super.getItem(key);
+  }
+
+  setItem(key: string, value: string): void | Promise<void> {
+    this.accesses.push({ method: "setItem", key, value });
+    return super.setItem(key, value);
+  }
+
+  removeItem(key: string): void | Promise<void> {
+    this.accesses.push({ method: "removeItem", key });
+    return super.removeItem(key);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Handle and decryption signature fixtures
+ * @module @fhevm-sdk/testing/fixtures
+ */
+
+import type { FhevmInstance } from "../fhevmTypes";
+import { FhevmDecryptionSignature } from "../FhevmDecryptionSignature";
+import { FheHandle, FHE_TYPES, type FheType } from "../core/handle";
+import { InMemoryFhevmInstance } from "../core/memoryInstance";
+import { seedBytes } from "../internal/seedBytes";
+import { FakeTypedDataSigner, TEST_CONTRACT_ADDRESS, TEST_USER_ADDRESS } from "./fakes";
+
+/**
+ * Handle fixture options
+ */
+export interface HandleFixtureOptions {
+  /** @default 'euint64' */
+  type?: FheType;
+
+  /** @default 31337 */
+  chainId?: number;
+
+  /** Position in an encrypted input; computed handle when omitted */
+  index?: number;
+
+  /** Same seed, same hash; a new hash per call when omitted */
+  seed?: string | number;
+
+  /** @default 0 */
+  version?: number;
+}
+
+let handleCount = 0;
+
+/**
+ * Well-formed handle that is not registered anywhere, e.g. for relayer
+ * mocks or handle parsing tests
+ *
+ * @example
+ * ```typescript
+ * const handle = createHandleFixture({ type: 'ebool', chainId: 11155111 });
+ * ```
+ */
+export function createHandleFixture(options: HandleFixtureOptions = {}): `0x${string}` {
+  const bytes = new Uint8Array(32);
+  const seed = options.seed ?? `fixture:${handleCount++}`;
+  bytes.set(seedBytes(String(seed), 21));
+  bytes[21] = options.index ?? 0xff;
+  new DataView(bytes.buffer).setBigUint64(22, BigInt(options.chainId ?? 31337));
+  bytes[30] = FHE_TYPES.indexOf(options.type ?? "euint64");
+  bytes[31] = options.version ?? 0;
+  return FheHandle.from(bytes).hex;
+}
+
+/**
+ * Decryption signature fixture options
+ */
+export interface DecryptionSignatureFixtureOptions {
+  /** Instance that builds the EIP-712 request; an in-memory one by default */
+  instance?: FhevmInstance;
+
+  /** @default TEST_USER_ADDRESS */
+  userAddress?: `0x${string}`;
+
+  /** @default [TEST_CONTRACT_ADDRESS] */
+  contractAddresses?: `0x${string}`[];
+
+  /** Unix timestamp in seconds; in the past for expired signatures (default: now) */
+  startTimestamp?: number;
+
+  /** @default 365 */
+  durationDays?: number;
+}
+
+/**
+ * Signed user decryption request, e.g. to seed a signature storage with
+ * `signature.saveToGenericStringStorage(storage, instance, false)`
+ *
+ * @example
+ * ```typescript
+ * const expired = await createDecryptionSignatureFixture({
+ *   startTimestamp: Math.floor(Date.now() / 1000) - 400 * 86400,
+ * });
+ * expired.isValid(); // false
+ * ```
+ */
+export async function createDecryptionSignatureFixture(
+  options: DecryptionSignatureFixtureOptions = {}
+): Promise<FhevmDecryptionSignature> {
+  const instance = options.instance ?? new InMemoryFhevmInstance();
+  const userAddress = options.userAddress ?? TEST_USER_ADDRESS;
+  const contractAddresses = options.contractAddresses ?? [TEST_CONTRACT_ADDRESS];
+  const startTimestamp = options.startTimestamp ?? Math.floor(Date.now() / 1000);
+  const durationDays = options.durationDays ?? 365;
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await new FakeTypedDataSigner(userAddress).signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  return FhevmDecryptionSignature.fromJSON({
+    publicKey,
+    privateKey,
+    signature,
+    startTimestamp,
+    durationDays,
+    userAddress,
+    contractAddresses,
+    eip712,
+  });
+}
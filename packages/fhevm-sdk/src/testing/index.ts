@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Test utilities: fakes, fixtures and a ready client
+ * @module @fhevm-sdk/testing
+ *
+ * Matchers are registered by `uni-fhevm-sdk/testing/vitest`; React and Vue
+ * harnesses live in `uni-fhevm-sdk/testing/react` and
+ * `uni-fhevm-sdk/testing/vue`.
+ */
+
+export * from "./fakes";
+export * from "./fixtures";
+export * from "./client";
+export { fhevmMatchers, type FhevmMatchers } from "./matchers";
+export { InMemoryFhevmInstance } from "../core/memoryInstance";
+export type { InMemoryFhevmInstanceOptions, InMemoryHandleOptions } from "../core/memoryInstance";
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Vitest matchers for handles and plaintexts
+ * @module @fhevm-sdk/testing/matchers
+ */
+
+import { FheHandle, type FheType } from "../core/handle";
+import { decodeFheValue } from "../core/decryption";
+import type { InMemoryFhevmInstance } from "../core/memoryInstance";
+
+/**
+ * Matchers added by `uni-fhevm-sdk/testing/vitest`
+ */
+export interface FhevmMatchers<R = unknown> {
+  /**
+   * The value is a 32-byte handle, of `type` when given
+   */
+  toBeValidHandle(type?: FheType): R;
+
+  /**
+   * The handle's plaintext in `instance` (default: the instance of the
+   * last `createTestClient`) equals `expected`. Numbers compare equal to
+   * bigints and addresses ignore case.
+   */
+  toDecryptTo(expected: unknown, instance?: InMemoryFhevmInstance): R;
+}
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+let defaultInstance: InMemoryFhevmInstance | undefined;
+
+/**
+ * Instance `toDecryptTo` reads when none is passed
+ */
+export function setMatcherInstance(instance: InMemoryFhevmInstance | undefined): void {
+  defaultInstance = instance;
+}
+
+function format(value: unknown): string {
+  return typeof value === "bigint" ? `${value}n` : JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Matcher implementations, for `expect.extend(fhevmMatchers)`
+ */
+export const fhevmMatchers = {
+  toBeValidHandle(this: { isNot: boolean }, received: unknown, type?: FheType): MatcherResult {
+    if (!FheHandle.isHandle(received)) {
+      return { pass: false, message: () => `expected ${format(received)} to be a 32-byte handle` };
+    }
+
+    const actualType = FheHandle.from(received).fheType;
+    const pass = type === undefined || actualType === type;
+    return {
+      pass,
+      message: () =>
+        this.isNot
+          ? `expected ${FheHandle.key(received)} not to be a valid ${type ?? "handle"}`
+          : `expected ${FheHandle.key(received)} to be ${type}, but it encodes ${actualType ?? "an unknown type"}`,
+    };
+  },
+
+  toDecryptTo(
+    this: { isNot: boolean },
+    received: unknown,
+    expected: unknown,
+    instance: InMemoryFhevmInstance | undefined = defaultInstance
+  ): MatcherResult {
+    if (!instance) {
+      throw new Error("toDecryptTo needs an InMemoryFhevmInstance: pass one or use createTestClient()");
+    }
+    if (!FheHandle.isHandle(received)) {
+      return { pass: false, message: () => `expected ${format(received)} to be a 32-byte handle` };
+    }
+
+    const handle = FheHandle.from(received);
+    const actual = instance.getPlaintext(handle);
+    if (actual === undefined) {
+      return { pass: false, message: () => `expected ${handle.hex} to be a handle of the instance` };
+    }
+
+    let normalized: unknown = expected;
+    try {
+      normalized = handle.fheType ? decodeFheValue(handle.fheType, expected) : expected;
+    } catch {
+      // Not a value of the handle's type: compare as is and fail
+    }
+
+    return {
+      pass: actual === normalized,
+      message: () =>
+        `expected ${handle.hex} ${this.isNot ? "not " : ""}to decrypt to ${format(expected)}, got ${format(actual)}`,
+    };
+  },
+};
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview React test harness
+ * @module @fhevm-sdk/testing/react
+ */
+
+import { act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+import type { useFHEVM, UseFHEVMResult } from "../adapters/react/useFHEVM";
+import { createTestClient, type FhevmTestContext, type TestClientOptions } from "./client";
+
+/**
+ * A ready client for React components and hooks under test
+ */
+export interface FHEVMReactHarness extends FhevmTestContext {
+  /** `useFHEVM` config that initializes on the harness's instance */
+  config: Parameters<typeof useFHEVM>[0];
+
+  /**
+   * What `useFHEVM` returns once ready, e.g. for
+   * `vi.mocked(useFHEVM).mockReturnValue(harness.fhevm)`
+   */
+  fhevm: UseFHEVMResult;
+}
+
+/**
+ * A hook rendered by `renderHook`
+ */
+export interface RenderedHook<T> {
+  /** Latest value returned by the hook */
+  result: { current: T };
+
+  /** Render the hook again */
+  rerender: () => Promise<void>;
+
+  /** Unmount the component, running the hook's cleanups */
+  unmount: () => Promise<void>;
+}
+
+/**
+ * Create a ready client and the `useFHEVM` config and result around it
+ *
+ * @example
+ * ```tsx
+ * const harness = await createFHEVMReactHarness();
+ * const { result } = await renderHook(() =>
+ *   useFHEEncrypt({
+ *     instance: harness.fhevm.instance,
+ *     signer: harness.signer,
+ *     contractAddress: TEST_CONTRACT_ADDRESS,
+ *   })
+ * );
+ * ```
+ */
+export async function createFHEVMReactHarness(options: TestClientOptions = {}): Promise<FHEVMReactHarness> {
+  const context = await createTestClient(options);
+  const { client, instance } = context;
+
+  return {
+    ...context,
+    config: {
+      provider: options.provider ?? "http://localhost:8545",
+      chainId: instance.chainId,
+      enabled: true,
+      watchProvider: false,
+      instance,
+    },
+    fhevm: {
+      client,
+      instance: client.getInstance(),
+      status: "ready",
+      isReady: true,
+      isLoading: false,
+      initPhase: undefined,
+      error: undefined,
+      init: () => client.init(),
+      reinit: (config) => client.reinit(config),
+      abort: () => client.abort(),
+    },
+  };
+}
+
+/**
+ * Run a hook inside a mounted component, so that effects and state
+ * updates work as in an app. Renders and unmounts are wrapped in `act`.
+ *
+ * @example
+ * ```typescript
+ * const { result, unmount } = await renderHook(() => useFHEVM(harness.config));
+ * expect(result.current.isReady).toBe(true);
+ * await unmount();
+ * ```
+ */
+export async function renderHook<T>(hook: () => T): Promise<RenderedHook<T>> {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+  const result = { current: undefined as T };
+  function HookHost() {
+    result.current = hook();
+    return null;
+  }
+
+  const root = createRoot(document.createElement("div"));
+  const render = () => act(async () => root.render(createElement(HookHost)));
+  await render();
+
+  return {
+    result,
+    rerender: render,
+    unmount: () => act(async () => root.unmount()),
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Registers the FHEVM matchers with vitest
+ * @module @fhevm-sdk/testing/vitest
+ *
+ * @example
+ * ```typescript
+ * // vitest.config.ts
+ * test: { setupFiles: ['uni-fhevm-sdk/testing/vitest'] }
+ * ```
+ */
+
+import { expect } from "vitest";
+import { fhevmMatchers, type FhevmMatchers } from "./matchers";
+
+expect.extend(fhevmMatchers);
+
+declare module "vitest" {
+  interface Assertion<T = any> extends FhevmMatchers<T> {}
+  interface AsymmetricMatchersContaining extends FhevmMatchers {}
+}
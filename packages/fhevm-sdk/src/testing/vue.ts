@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Vue test harness
+ * @module @fhevm-sdk/testing/vue
+ */
+
+import { computed, createApp, shallowRef } from "vue";
+import type { UseFHEVMComposable, UseFHEVMConfig } from "../adapters/vue/useFHEVM";
+import type { FHEVMClientStatus } from "../core/client";
+import type { FhevmInstance } from "../fhevmTypes";
+import { createTestClient, type FhevmTestContext, type TestClientOptions } from "./client";
+
+/**
+ * A ready client for Vue components and composables under test
+ */
+export interface FHEVMVueHarness extends FhevmTestContext {
+  /** `useFHEVM` config that initializes on the harness's instance */
+  config: UseFHEVMConfig;
+
+  /**
+   * What `useFHEVM` returns once ready, e.g. for
+   * `vi.mocked(useFHEVM).mockReturnValue(harness.fhevm)`
+   */
+  fhevm: UseFHEVMComposable;
+}
+
+/**
+ * Create a ready client and the `useFHEVM` config and result around it
+ *
+ * @example
+ * ```typescript
+ * const harness = await createFHEVMVueHarness();
+ * const { result } = withSetup(() =>
+ *   useFHEEncrypt({
+ *     instance: harness.fhevm.instance,
+ *     signer: harness.signer,
+ *     contractAddress: TEST_CONTRACT_ADDRESS,
+ *   })
+ * );
+ * ```
+ */
+export async function createFHEVMVueHarness(options: TestClientOptions = {}): Promise<FHEVMVueHarness> {
+  const context = await createTestClient(options);
+  const { client, instance } = context;
+  const status = shallowRef<FHEVMClientStatus>("ready");
+
+  return {
+    ...context,
+    config: {
+      provider: options.provider ?? "http://localhost:8545",
+      chainId: instance.chainId,
+      watchProvider: false,
+      instance,
+    },
+    fhevm: {
+      client: shallowRef(client),
+      instance: shallowRef<FhevmInstance | undefined>(client.getInstance()),
+      status,
+      isReady: computed(() => status.value === "ready"),
+      isLoading: computed(() => status.value === "initializing"),
+      initPhase: shallowRef(undefined),
+      error: shallowRef(undefined),
+      init: () => client.init(),
+      reinit: (config) => client.reinit(config),
+      abort: () => client.abort(),
+    },
+  };
+}
+
+/**
+ * Run a composable inside a mounted component, so that lifecycle hooks
+ * and watchers work as in an app
+ *
+ * @example
+ * ```typescript
+ * const { result, unmount } = withSetup(() => useFHEVM(harness.config));
+ * await vi.waitFor(() => expect(result.isReady.value).toBe(true));
+ * unmount();
+ * ```
+ */
+export function withSetup<T>(composable: () => T): { result: T; unmount: () => void } {
+  let result!: T;
+  const app = createApp({
+    setup() {
+      result = composable();
+      return () => null;
+    },
+  });
+  app.mount(document.createElement("div"));
+  return { result, unmount: () => app.unmount() };
+}
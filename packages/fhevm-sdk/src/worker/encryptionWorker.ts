@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Worker side of worker-backed encryption
+ * @module @fhevm-sdk/worker
+ */
+
+import { createFhevmInstance } from "../internal/fhevm";
+import { FhevmNetworkRegistry } from "../core/networks";
+import { EncryptionBuilder } from "../core/encryption";
+import type { FhevmInstance } from "../fhevmTypes";
+import {
+  deserializeError,
+  serializeError,
+  type WorkerInstanceConfig,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./protocol";
+
+/**
+ * The parts of a worker global scope used here
+ */
+export interface EncryptionWorkerScope {
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  addEventListener(type: "message", listener: (event: MessageEvent<WorkerRequest>) => void): void;
+}
+
+/**
+ * Serve encryption requests in this worker
+ *
+ * Requests received before the instance is ready wait for it; an
+ * initialization error fails every request.
+ */
+export function startEncryptionWorker(scope: EncryptionWorkerScope): void {
+  let instance: Promise<FhevmInstance> | undefined;
+  let nextRpcId = 0;
+  const pendingRpc = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+  // EIP-1193 provider backed by the main thread's provider
+  const provider = {
+    request: ({ method, params }: { method: string; params?: unknown[] }) =>
+      new Promise<unknown>((resolve, reject) => {
+        const id = nextRpcId++;
+        pendingRpc.set(id, { resolve, reject });
+        scope.postMessage({ type: "rpc", id, method, params });
+      }),
+  };
+
+  const init = (config: WorkerInstanceConfig) =>
+    createFhevmInstance({
+      provider: config.rpcUrl ?? provider,
+      chainId: config.chainId,
+      mockChains: config.mockChains,
+      networks: new FhevmNetworkRegistry(config.networks),
+      relayer: { url: config.relayerUrl, headers: config.relayerHeaders },
+      publicKeyBundle: config.publicKeyBundle,
+      initSDK: config.initSDK,
+      sdkSource: config.sdkSource,
+      signal: new AbortController().signal,
+    });
+
+  scope.addEventListener("message", async ({ data }) => {
+    switch (data.type) {
+      case "init": {
+        instance = init(data.config);
+        // Reported with the first request
+        instance.catch(() => {});
+        break;
+      }
+
+      case "rpc:result": {
+        const pending = pendingRpc.get(data.id);
+        pendingRpc.delete(data.id);
+        if (data.error) {
+          pending?.reject(deserializeError(data.error));
+        } else {
+          pending?.resolve(data.result);
+        }
+        break;
+      }
+
+      case "encrypt": {
+        try {
+          if (!instance) {
+            throw new Error("Encryption worker is not initialized");
+          }
+          const input = (await instance).createEncryptedInput(data.contractAddress, data.userAddress);
+          const builder = new EncryptionBuilder(input);
+          for (const { type, value } of data.ops) {
+            builder.add(value, type);
+          }
+          const { handles, inputProof } = await input.encrypt();
+          // Handles may share a buffer; each buffer is transferred once
+          const buffers = new Set([...handles.map((h) => h.buffer), inputProof.buffer]);
+          scope.postMessage(
+            { type: "encrypt:result", id: data.id, handles, inputProof },
+            Array.from(buffers) as Transferable[]
+          );
+        } catch (error) {
+          scope.postMessage({ type: "encrypt:error", id: data.id, error: serializeError(error) });
+        }
+        break;
+      }
+    }
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Encryption worker script
+ * @module @fhevm-sdk/worker
+ *
+ * Load this module as a module Worker and pass it to
+ * `FHEVMClientConfig.encryptionWorkers`. It holds its own FHEVM instance
+ * and runs `input.encrypt()` (including ZK proof generation) off the main
+ * thread.
+ *
+ * @example
+ * ```typescript
+ * const client = new FHEVMClient({
+ *   provider: window.ethereum,
+ *   chainId: 11155111,
+ *   encryptionWorkers: {
+ *     createWorker: () =>
+ *       new Worker(new URL('uni-fhevm-sdk/worker', import.meta.url), { type: 'module' }),
+ *   },
+ * });
+ * ```
+ */
+
+import { startEncryptionWorker, type EncryptionWorkerScope } from "./encryptionWorker";
+
+startEncryptionWorker(self as unknown as EncryptionWorkerScope);
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Messages between the client and its encryption workers
+ * @module @fhevm-sdk/worker
+ */
+
+import type { FhevmNetworkOverrides } from "../core/networks";
+import type { EncryptableValue, FHEDataType } from "../core/encryption";
+import type { PublicKeyBundle } from "../core/keyBundle";
+import type { FhevmInitSDKOptions } from "../internal/fhevmTypes";
+import type { RelayerSDKSource } from "../core/sdkSource";
+
+/**
+ * Encrypted input value recorded on the main thread and replayed in the
+ * worker
+ */
+export type EncryptInputOp = {
+  type: FHEDataType;
+  value: EncryptableValue;
+};
+
+/**
+ * Instance options sent to a worker. Functions cannot cross the worker
+ * boundary: an EIP-1193 provider is proxied through `rpc` messages and
+ * `relayerFetch` is not available in workers.
+ */
+export type WorkerInstanceConfig = {
+  /** RPC URL, or null to proxy JSON-RPC calls to the main thread */
+  rpcUrl: string | null;
+  chainId?: number;
+  mockChains?: Record<number, string>;
+  networks?: FhevmNetworkOverrides;
+  relayerUrl?: string;
+  relayerHeaders?: Record<string, string>;
+  /** Keys of the main thread instance, so workers skip the download */
+  publicKeyBundle?: PublicKeyBundle;
+  /** `initSDK` options of the client, after the threading check */
+  initSDK?: FhevmInitSDKOptions;
+  /** `sdkSource` of the client; without `window`, npm loads the web build */
+  sdkSource?: RelayerSDKSource;
+};
+
+export type WorkerRequest =
+  | { type: "init"; config: WorkerInstanceConfig }
+  | {
+      type: "encrypt";
+      id: number;
+      contractAddress: `0x${string}`;
+      userAddress: `0x${string}`;
+      ops: EncryptInputOp[];
+    }
+  | { type: "rpc:result"; id: number; result?: unknown; error?: SerializedError };
+
+export type WorkerResponse =
+  | { type: "encrypt:result"; id: number; handles: Uint8Array[]; inputProof: Uint8Array }
+  | { type: "encrypt:error"; id: number; error: SerializedError }
+  | { type: "rpc"; id: number; method: string; params?: unknown[] };
+
+export type SerializedError = {
+  name: string;
+  message: string;
+  code?: string;
+  cause?: { code?: string; status?: number };
+};
+
+export function serializeError(error: unknown): SerializedError {
+  const e = error as { name?: string; message?: string; code?: unknown; cause?: any };
+  return {
+    name: e?.name ?? "Error",
+    message: e?.message ?? String(error),
+    ...(typeof e?.code === "string" && { code: e.code }),
+    ...(e?.cause &&
+      typeof e.cause === "object" && {
+        cause: { code: e.cause.code, status: e.cause.status },
+      }),
+  };
+}
+
+export function deserializeError(serialized: SerializedError): Error {
+  const error = new Error(serialized.message, serialized.cause ? { cause: serialized.cause } : undefined);
+  error.name = serialized.name;
+  if (serialized.code) {
+    (error as Error & { code: string }).code = serialized.code;
+  }
+  return error;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { FhevmAbortError, anySignal, raceWithSignal } from "../src/core/abort";
+import { withRetry } from "../src/core/retry";
+import { DecryptionManager } from "../src/core/decryption";
+import type { FhevmInstance } from "../src/fhevmTypes";
+
+describe("abort", () => {
+  it("rejects a pending promise when the signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = raceWithSignal(new Promise(() => {}), controller.signal);
+
+    controller.abort("gone");
+
+    await expect(pending).rejects.toBeInstanceOf(FhevmAbortError);
+    await expect(pending).rejects.toMatchObject({ reason: "gone" });
+  });
+
+  it("combines signals", () => {
+    const a = new AbortController();
+    const b = new AbortController();
+    const combined = anySignal(a.signal, undefined, b.signal)!;
+
+    expect(anySignal(a.signal, undefined)).toBe(a.signal);
+    expect(combined.aborted).toBe(false);
+    b.abort();
+    expect(combined.aborted).toBe(true);
+  });
+
+  it("does not retry or wait once aborted", async () => {
+    const controller = new AbortController();
+    const run = vi.fn().mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(new Error("failed", { cause: { status: 503 } }));
+    });
+
+    await expect(
+      withRetry(run, {
+        operation: "publicDecrypt",
+        policy: { maxAttempts: 5, initialDelayMs: 10_000 },
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(FhevmAbortError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels DecryptionManager.publicDecrypt without wrapping the error", async () => {
+    const instance = {
+      publicDecrypt: vi.fn(() => new Promise(() => {})),
+    } as unknown as FhevmInstance;
+    const controller = new AbortController();
+    const manager = new DecryptionManager(instance);
+
+    const pending = manager.publicDecrypt(["0x01"], { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(FhevmAbortError);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import type { JsonRpcSigner } from "ethers";
+import { DecryptionBatcher } from "../src/core/batching";
+import { FhevmAbortError } from "../src/core/abort";
+import { createHandleFixture } from "../src/testing/fixtures";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const AUCTION = "0x2222222222222222222222222222222222222222";
+
+function createBatcher() {
+  const run = vi.fn(async (requests: { handle: string }[]) =>
+    Object.fromEntries(requests.map((r) => [r.handle, BigInt(r.handle)]))
+  );
+  return { run, batcher: new DecryptionBatcher(run) };
+}
+
+describe("DecryptionBatcher", () => {
+  const signer = {} as JsonRpcSigner;
+
+  it("merges calls of the same tick and dedupes handles", async () => {
+    const { run, batcher } = createBatcher();
+
+    const [a, b] = await Promise.all([
+      batcher.decrypt([{ handle: "0x01", contractAddress: TOKEN }], signer),
+      batcher.decrypt(
+        [
+          { handle: "0x01", contractAddress: TOKEN },
+          { handle: "0x02", contractAddress: AUCTION },
+        ],
+        signer
+      ),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][0]).toHaveLength(2);
+    expect(a).toEqual({ "0x01": 1n });
+    expect(b).toEqual({ "0x01": 1n, "0x02": 2n });
+  });
+
+  it("keeps signers in separate batches", async () => {
+    const { run, batcher } = createBatcher();
+
+    await Promise.all([
+      batcher.decrypt([{ handle: "0x01", contractAddress: TOKEN }], signer),
+      batcher.decrypt([{ handle: "0x01", contractAddress: TOKEN }], {} as JsonRpcSigner),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops an aborted caller before the batch is sent", async () => {
+    const { run, batcher } = createBatcher();
+    const controller = new AbortController();
+
+    const aborted = batcher.decrypt([{ handle: "0x03", contractAddress: TOKEN }], signer, {
+      signal: controller.signal,
+    });
+    const kept = batcher.decrypt([{ handle: "0x04", contractAddress: TOKEN }], signer);
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(FhevmAbortError);
+    await expect(kept).resolves.toEqual({ "0x04": 4n });
+    expect(run.mock.calls[0][0]).toEqual([{ handle: "0x04", contractAddress: TOKEN }]);
+  });
+
+  it("starts a new batch before the userDecrypt bit limit", async () => {
+    const { run, batcher } = createBatcher();
+    const handles = Array.from({ length: 9 }, () => createHandleFixture({ type: "euint256" }));
+
+    const results = await Promise.all(
+      handles.map((handle) => batcher.decrypt([{ handle, contractAddress: TOKEN }], signer))
+    );
+
+    // 8 x 256 bits fill one request
+    expect(run.mock.calls.map(([requests]) => requests.length)).toEqual([8, 1]);
+    expect(results[8]).toEqual({ [handles[8]]: BigInt(handles[8]) });
+  });
+
+  it("starts a new batch before the userDecrypt contract limit", async () => {
+    const { run, batcher } = createBatcher();
+    const contracts = Array.from(
+      { length: 11 },
+      (_, i) => `0x${(i + 1).toString(16).padStart(40, "0")}` as `0x${string}`
+    );
+
+    await Promise.all(
+      contracts.map((contractAddress) =>
+        batcher.decrypt([{ handle: createHandleFixture({ type: "ebool" }), contractAddress }], signer)
+      )
+    );
+
+    expect(run.mock.calls.map(([requests]) => requests.length)).toEqual([10, 1]);
+  });
+
+  it("rejects every caller when the batch fails", async () => {
+    const batcher = new DecryptionBatcher(async () => {
+      throw new Error("relayer down");
+    });
+
+    const calls = [
+      batcher.decrypt([{ handle: "0x01", contractAddress: TOKEN }], signer),
+      batcher.decrypt([{ handle: "0x02", contractAddress: TOKEN }], signer),
+    ];
+
+    for (const call of calls) {
+      await expect(call).rejects.toThrow("relayer down");
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from "vitest";
+import { FHEVMClient } from "../src/core/client";
+
+function createFakeProvider() {
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+  return {
+    request: vi.fn(async () => "0xaa36a7"),
+    on(event: string, listener: (...args: any[]) => void) {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    removeListener(event: string, listener: (...args: any[]) => void) {
+      listeners.get(event)?.delete(listener);
+    },
+    emit(event: string, ...args: any[]) {
+      listeners.get(event)?.forEach((l) => l(...args));
+    },
+    listenerCount(event: string) {
+      return listeners.get(event)?.size ?? 0;
+    },
+  };
+}
+
+describe("FHEVMClient watchProvider", () => {
+  it("does not subscribe unless enabled", () => {
+    const provider = createFakeProvider();
+    new FHEVMClient({ provider });
+    expect(provider.listenerCount("chainChanged")).toBe(0);
+  });
+
+  it("forwards wallet events and unsubscribes on dispose", () => {
+    const provider = createFakeProvider();
+    const client = new FHEVMClient({ provider, watchProvider: true });
+    const accounts = vi.fn();
+    const disconnect = vi.fn();
+    client.on("provider:accountsChanged", accounts);
+    client.on("provider:disconnect", disconnect);
+
+    provider.emit("accountsChanged", ["0x0000000000000000000000000000000000000001"]);
+    provider.emit("disconnect");
+
+    expect(accounts).toHaveBeenCalledWith({
+      accounts: ["0x0000000000000000000000000000000000000001"],
+    });
+    expect(disconnect).toHaveBeenCalledTimes(1);
+    expect(client.status).toBe("idle");
+
+    client.dispose();
+    expect(provider.listenerCount("chainChanged")).toBe(0);
+    expect(provider.listenerCount("accountsChanged")).toBe(0);
+    expect(provider.listenerCount("disconnect")).toBe(0);
+  });
+});
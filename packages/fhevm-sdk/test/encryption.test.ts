@@ -0,0 +1,307 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+
+vi.mock("../src/internal/fhevm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/internal/fhevm")>();
+  return { ...actual, createFhevmInstance: vi.fn() };
+});
+
+import { createFhevmInstance } from "../src/internal/fhevm";
+import { FHEVMClient } from "../src/core/client";
+import {
+  EncryptionBuilder,
+  EncryptionValidationError,
+  withInputValidation,
+  planEncryptionBatch,
+  MAX_INPUT_VALUES,
+  createEncryptionEnvelope,
+  serializeEncryptionEnvelope,
+  deserializeEncryptionEnvelope,
+  verifyEnvelopeMatches,
+  EncryptionEnvelopeError,
+  planEncryptedCall,
+  planEncryptedSchema,
+  type EncryptionSchemaValues,
+} from "../src/core/encryption";
+
+const abi = [
+  {
+    type: "function",
+    name: "placeBid",
+    inputs: [
+      { name: "auctionId", type: "uint256", internalType: "uint256" },
+      { name: "amount", type: "bytes32", internalType: "externalEuint64" },
+      { name: "sealed", type: "bytes32", internalType: "externalEbool" },
+      { name: "inputProof", type: "bytes", internalType: "bytes" },
+      { name: "memo", type: "string", internalType: "string" },
+    ],
+  },
+  {
+    type: "function",
+    name: "placeBid",
+    inputs: [{ name: "auctionId", type: "uint256", internalType: "uint256" }],
+  },
+];
+
+/** Input that records its calls */
+function recordingInput() {
+  const calls: [string, unknown][] = [];
+  const input = new Proxy({}, {
+    get: (_, method: string) => (value: unknown) => {
+      calls.push([method, value]);
+      return input;
+    },
+  });
+  return { input: input as any, calls };
+}
+
+describe("planEncryptedCall", () => {
+  it("encrypts every encrypted argument and places the proof", () => {
+    const plan = planEncryptedCall(abi, "placeBid", [7n, 100n, true, "gl"]);
+    const { input, calls } = recordingInput();
+    plan.build(input);
+
+    expect(calls).toEqual([
+      ["add64", 100n],
+      ["addBool", true],
+    ]);
+    expect(
+      plan.toArgs({
+        handles: [new Uint8Array([1]), new Uint8Array([2])],
+        inputProof: new Uint8Array([0xab]),
+      })
+    ).toEqual([7n, "0x01", "0x02", "0xab", "gl"]);
+  });
+
+  it("picks the overload by argument count", () => {
+    const plan = planEncryptedCall(abi, "placeBid", [7n]);
+    const { input, calls } = recordingInput();
+    plan.build(input);
+
+    expect(calls).toEqual([]);
+    expect(plan.toArgs({ handles: [], inputProof: new Uint8Array() })).toEqual([7n]);
+  });
+
+  it("rejects unknown functions and wrong argument counts", () => {
+    expect(() => planEncryptedCall(abi, "withdraw", [])).toThrow("Function ABI not found");
+    expect(() => planEncryptedCall(abi, "placeBid", [1, 2])).toThrow("takes 4 or 1 arguments");
+  });
+
+  it("rejects overloads it cannot tell apart", () => {
+    const overloaded = [
+      ...abi,
+      {
+        type: "function",
+        name: "placeBid",
+        inputs: [{ name: "bidder", type: "address", internalType: "address" }],
+      },
+    ];
+    expect(() => planEncryptedCall(overloaded, "placeBid", [7n])).toThrow(
+      "placeBid has 2 overloads taking 1 arguments"
+    );
+    expect(() => planEncryptedCall(overloaded, "placeBid", [7n, 100n, true, "gl"])).not.toThrow();
+  });
+
+  it("reports invalid encrypted arguments by argument index", () => {
+    let error: unknown;
+    try {
+      planEncryptedCall(abi, "placeBid", [7n, 100n, "yes", "gl"]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(EncryptionValidationError);
+    expect(error).toMatchObject({ index: 2, type: "bool", value: "yes" });
+    expect((error as Error).message).toContain("argument 2 of placeBid");
+  });
+});
+
+describe("planEncryptedSchema", () => {
+  const schema = { amount: "uint64", isBid: "bool", to: "address" } as const;
+  const to = "0x00000000000000000000000000000000000000aa";
+
+  it("encrypts in field order and names the handles", () => {
+    const plan = planEncryptedSchema(schema, { amount: 5n, isBid: true, to });
+    const { input, calls } = recordingInput();
+    plan.build(input);
+
+    expect(calls).toEqual([
+      ["add64", 5n],
+      ["addBool", true],
+      ["addAddress", to],
+    ]);
+    const result = plan.toResult({
+      handles: [new Uint8Array([1]), new Uint8Array([2]), new Uint8Array([3])],
+      inputProof: new Uint8Array([9]),
+    });
+    expect(result.handles.isBid).toEqual(new Uint8Array([2]));
+    expectTypeOf(result.handles).toEqualTypeOf<{
+      readonly amount: Uint8Array;
+      readonly isBid: Uint8Array;
+      readonly to: Uint8Array;
+    }>();
+    expectTypeOf<EncryptionSchemaValues<typeof schema>["isBid"]>().toEqualTypeOf<boolean>();
+  });
+
+  it("validates values before encrypting", () => {
+    expect(() => planEncryptedSchema(schema, { amount: -1n, isBid: true, to })).toThrow(
+      EncryptionValidationError
+    );
+    expect(() => planEncryptedSchema({ flag: "bool" }, {} as any)).toThrow("Missing value for flag");
+  });
+});
+
+describe("input validation", () => {
+  it("rejects invalid values with their index before they reach the input", () => {
+    const { input, calls } = recordingInput();
+    const builder = new EncryptionBuilder(input).addUint8(255).addBool(true);
+
+    const error = (() => {
+      try {
+        builder.addUint16(70000);
+      } catch (e) {
+        return e as EncryptionValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(EncryptionValidationError);
+    expect(error).toMatchObject({ index: 2, type: "uint16", reason: "INVALID_VALUE" });
+    expect(calls).toEqual([
+      ["add8", 255],
+      ["addBool", true],
+    ]);
+  });
+
+  it("enforces the 2048-bit budget of an input", () => {
+    const input = withInputValidation(recordingInput().input);
+    for (let i = 0; i < 8; i++) {
+      input.add256(BigInt(i));
+    }
+
+    expect(() => input.addBool(false)).toThrow(
+      expect.objectContaining({ index: 8, type: "bool", reason: "BIT_LIMIT_EXCEEDED" })
+    );
+  });
+
+  it("validates an input once when wrapped again", () => {
+    const input = withInputValidation(recordingInput().input);
+    expect(withInputValidation(input)).toBe(input);
+  });
+});
+
+describe("batch encryption", () => {
+  it("packs values into as few inputs as the limits allow", () => {
+    // 8 x 256 bits fill an input; the 301 values left exceed the value limit of one input
+    const values = [
+      ...Array.from({ length: 9 }, (_, i) => ({ value: BigInt(i), type: "uint256" as const })),
+      ...Array.from({ length: 300 }, () => ({ value: true, type: "bool" as const })),
+    ];
+    const { chunks, indexMap } = planEncryptionBatch(values);
+
+    expect(chunks.length).toBe(3);
+    expect(chunks.every((chunk) => chunk.length <= MAX_INPUT_VALUES)).toBe(true);
+    expect(chunks.flat().sort((a, b) => a - b)).toEqual(values.map((_, i) => i));
+    indexMap.forEach(({ chunk, position }, index) => {
+      expect(chunks[chunk][position]).toBe(index);
+    });
+  });
+
+  it("reports the original index of an invalid value", () => {
+    expect(() =>
+      planEncryptionBatch([
+        { value: 1, type: "uint8" },
+        { value: 256, type: "uint8" },
+      ])
+    ).toThrow(expect.objectContaining({ index: 1, type: "uint8" }));
+  });
+
+  it("encrypts chunks with limited concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    let inputs = 0;
+    vi.mocked(createFhevmInstance).mockResolvedValue({
+      createEncryptedInput: () => {
+        const id = inputs++;
+        const values: unknown[] = [];
+        const input = {
+          add64: (v: unknown) => values.push(v),
+          encrypt: async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+            return {
+              handles: values.map((v) => new Uint8Array([Number(v)])),
+              inputProof: new Uint8Array([id]),
+            };
+          },
+        };
+        return input;
+      },
+    } as any);
+
+    const client = new FHEVMClient({ provider: "http://rpc", chainId: 1 });
+    await client.init();
+    const values = Array.from({ length: 100 }, (_, i) => ({ value: BigInt(i), type: "uint64" as const }));
+    const { chunks, indexMap } = await client.encryptBatch(
+      values,
+      {
+        contractAddress: "0x1111111111111111111111111111111111111111",
+        userAddress: "0x2222222222222222222222222222222222222222",
+      },
+      { concurrency: 2 }
+    );
+
+    // 32 uint64 per input
+    expect(chunks.length).toBe(4);
+    expect(maxRunning).toBe(2);
+    const { chunk, position } = indexMap[77];
+    expect(chunks[chunk].handles[position]).toEqual(new Uint8Array([77]));
+  });
+});
+
+describe("encryption envelopes", () => {
+  const contractAddress = "0x1111111111111111111111111111111111111111";
+  const userAddress = "0x2222222222222222222222222222222222222222";
+  const envelope = createEncryptionEnvelope(
+    {
+      handles: [new Uint8Array(32).fill(1), new Uint8Array(32).fill(2)],
+      inputProof: new Uint8Array([9, 8, 7]),
+    },
+    { chainId: 11155111, contractAddress, userAddress, types: ["uint64", "bool"], createdAt: 1700000000000 }
+  );
+
+  it("round-trips through JSON and binary", () => {
+    const fromJson = deserializeEncryptionEnvelope(serializeEncryptionEnvelope(envelope));
+    const fromBinary = deserializeEncryptionEnvelope(serializeEncryptionEnvelope(envelope, "binary"));
+
+    for (const parsed of [fromJson, fromBinary]) {
+      expect(parsed).toMatchObject({ version: 1, chainId: 11155111, types: ["uint64", "bool"], createdAt: 1700000000000 });
+      expect(parsed.handles.map((h) => Array.from(h))).toEqual(envelope.handles.map((h) => Array.from(h)));
+      expect(Array.from(parsed.inputProof)).toEqual([9, 8, 7]);
+    }
+  });
+
+  it("rejects unknown versions and truncated data", () => {
+    const json = JSON.parse(serializeEncryptionEnvelope(envelope));
+    expect(() => deserializeEncryptionEnvelope({ ...json, version: 2 })).toThrow(
+      expect.objectContaining({ code: "UNSUPPORTED_VERSION" })
+    );
+    const binary = serializeEncryptionEnvelope(envelope, "binary");
+    expect(() => deserializeEncryptionEnvelope(binary.subarray(0, binary.length - 1))).toThrow(
+      EncryptionEnvelopeError
+    );
+  });
+
+  it("verifies the contract, user, chain and types", () => {
+    expect(() =>
+      verifyEnvelopeMatches(envelope, {
+        contractAddress: contractAddress.toUpperCase().replace("0X", "0x") as `0x${string}`,
+        userAddress,
+        chainId: 11155111,
+        types: ["uint64", "bool"],
+      })
+    ).not.toThrow();
+    expect(() =>
+      verifyEnvelopeMatches(envelope, { contractAddress, userAddress: contractAddress, chainId: 1 })
+    ).toThrow(expect.objectContaining({ code: "MISMATCH", message: expect.stringMatching(/user .* chain 11155111/) }));
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from "vitest";
+import { TypedEventEmitter } from "../src/core/events";
+
+type TestEvents = {
+  ping: { n: number };
+  pong: { ok: boolean };
+};
+
+describe("TypedEventEmitter", () => {
+  it("delivers payloads and unsubscribes", () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const listener = vi.fn();
+    const off = emitter.on("ping", listener);
+
+    emitter.emit("ping", { n: 1 });
+    off();
+    emitter.emit("ping", { n: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ n: 1 });
+  });
+
+  it("once listeners fire a single time and throwing listeners are isolated", () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const once = vi.fn();
+    const after = vi.fn();
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    emitter.once("pong", once);
+    emitter.on("pong", () => {
+      throw new Error("boom");
+    });
+    emitter.on("pong", after);
+
+    emitter.emit("pong", { ok: true });
+    emitter.emit("pong", { ok: false });
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(after).toHaveBeenCalledTimes(2);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { FheHandle, FHE_TYPES, type FheType } from "../src/core/handle";
+import {
+  DecryptionManager,
+  normalizeDecryptionResults,
+  planTypedDecryption,
+} from "../src/core/decryption";
+import type { FhevmTypedDataSigner } from "../src/core/signer";
+
+const computedBool = "0x830a61b343d2f3de67ec59cb18961fd086085c1c73ff0000000000aa36a70000";
+const CONTRACT = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+function handleOf(type: FheType, seed: number): string {
+  const bytes = new Uint8Array(32).fill(seed);
+  bytes[30] = FHE_TYPES.indexOf(type);
+  return FheHandle.from(bytes).hex;
+}
+
+describe("FheHandle", () => {
+  it("decodes the handle layout", () => {
+    const handle = FheHandle.from(computedBool);
+    expect(handle.isComputed).toBe(true);
+    expect(handle.index).toBeUndefined();
+    expect(handle.chainId).toBe(11155111);
+    expect(handle.fheType).toBe("ebool");
+    expect(handle.version).toBe(0);
+
+    const bytes = new Uint8Array(32);
+    bytes[21] = 3;
+    bytes[29] = 0x01;
+    bytes[30] = 5;
+    const input = FheHandle.from(bytes);
+    expect(input).toMatchObject({ index: 3, chainId: 1, fheType: "euint64", isComputed: false });
+  });
+
+  it("normalizes hex and bytes to the same key", () => {
+    const upper = "0X" + computedBool.slice(2).toUpperCase();
+    const bytes = FheHandle.from(computedBool).bytes;
+
+    expect(FheHandle.from(upper).hex).toBe(computedBool);
+    expect(FheHandle.key(bytes)).toBe(computedBool);
+    expect(FheHandle.from(bytes).equals(computedBool.slice(2))).toBe(true);
+  });
+
+  it("detects the zero handle and rejects non-handles", () => {
+    expect(FheHandle.from(new Uint8Array(32)).isZero).toBe(true);
+    expect(FheHandle.from(computedBool).isZero).toBe(false);
+    expect(() => FheHandle.from("0x1234")).toThrow(expect.objectContaining({ code: "INVALID_HANDLE" }));
+    expect(FheHandle.isHandle(new Uint8Array(31))).toBe(false);
+  });
+});
+
+describe("DecryptionResults keys", () => {
+  it("finds public decryption results by bytes", async () => {
+    const instance = {
+      publicDecrypt: async () => ({ [computedBool.toUpperCase().replace("0X", "0x")]: true }),
+    };
+    const manager = new DecryptionManager(instance as any);
+
+    await expect(manager.publicDecryptSingle(FheHandle.from(computedBool).bytes)).resolves.toBe(true);
+    await expect(manager.publicDecrypt([computedBool])).resolves.toEqual({ [computedBool]: true });
+  });
+});
+
+describe("typed decryption", () => {
+  const bool = handleOf("ebool", 1);
+  const address = handleOf("eaddress", 2);
+  const uint = handleOf("euint64", 3);
+
+  it("decodes values by the type encoded in their handle", () => {
+    const results = normalizeDecryptionResults({
+      [bool]: 1n,
+      [address]: CONTRACT.toLowerCase(),
+      [uint]: "42",
+      ["0x1234"]: "kept",
+    });
+
+    expect(results).toEqual({ [bool]: true, [address]: CONTRACT, [uint]: 42n, ["0x1234"]: "kept" });
+  });
+
+  it("returns named values of the declared types", () => {
+    const plan = planTypedDecryption({
+      owner: { handle: address, contractAddress: CONTRACT, type: "eaddress" },
+      balance: { handle: uint, contractAddress: CONTRACT, type: "euint64" },
+    });
+
+    expect(plan.requests.map((r) => r.handle)).toEqual([address, uint]);
+    expect(plan.toValues({ [address]: BigInt(CONTRACT), [uint]: 7n })).toEqual({
+      owner: CONTRACT,
+      balance: 7n,
+    });
+    expect(() => plan.toValues({ [address]: CONTRACT, [uint]: 1n << 64n })).toThrow(
+      expect.objectContaining({ code: "TYPE_MISMATCH" })
+    );
+  });
+
+  it("rejects a declared type that disagrees with the handle before signing", async () => {
+    const manager = new DecryptionManager({} as any);
+    const signer = {} as FhevmTypedDataSigner;
+
+    await expect(
+      manager.decrypt({ flag: { handle: uint, contractAddress: CONTRACT, type: "ebool" } }, signer)
+    ).rejects.toMatchObject({ code: "TYPE_MISMATCH" });
+    await expect(
+      manager.decrypt([{ handle: bool, contractAddress: CONTRACT, type: "euint8" }], signer)
+    ).rejects.toMatchObject({ code: "TYPE_MISMATCH" });
+
+    const typed = () =>
+      manager.decrypt(
+        {
+          flag: { handle: bool, contractAddress: CONTRACT, type: "ebool" },
+          owner: { handle: address, contractAddress: CONTRACT, type: "eaddress" },
+          balance: { handle: uint, contractAddress: CONTRACT, type: "euint64" },
+        },
+        signer
+      );
+    expectTypeOf(typed).returns.resolves.toEqualTypeOf<{
+      flag: boolean;
+      owner: `0x${string}`;
+      balance: bigint;
+    }>();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../src/internal/fhevm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/internal/fhevm")>();
+  return {
+    ...actual,
+    createFhevmInstance: vi.fn(async ({ onNetwork, networks }) => {
+      onNetwork(networks.get(11155111));
+      return {
+        getPublicKey: () => ({ publicKeyId: "pk-1", publicKey: new Uint8Array([1, 2, 3]) }),
+        getPublicParams: () => ({ publicParamsId: "crs-1", publicParams: new Uint8Array([4, 5]) }),
+      };
+    }),
+  };
+});
+
+import { FHEVMClient } from "../src/core/client";
+import {
+  parsePublicKeyBundle,
+  serializePublicKeyBundle,
+  PublicKeyBundleError,
+  type PublicKeyBundle,
+} from "../src/core/keyBundle";
+import { createFhevmInstance } from "../src/internal/fhevm";
+
+const bundle: PublicKeyBundle = {
+  version: 1,
+  chainId: 11155111,
+  aclAddress: "0x687820221192C5B662b25367F70076A37bc79b6c",
+  createdAt: 1700000000000,
+  publicKey: { publicKeyId: "pk-1", publicKey: new Uint8Array([1, 2, 3]) },
+  publicParams: { publicParamsId: "crs-1", publicParams: new Uint8Array(70_000).fill(7) },
+};
+
+describe("public key bundles", () => {
+  it("round-trips JSON and binary", () => {
+    expect(parsePublicKeyBundle(serializePublicKeyBundle(bundle))).toEqual(bundle);
+    expect(parsePublicKeyBundle(serializePublicKeyBundle(bundle, "binary"))).toEqual(bundle);
+  });
+
+  it("rejects other data and versions", () => {
+    const binary = serializePublicKeyBundle(bundle, "binary");
+    binary[4] = 2;
+
+    expect(() => parsePublicKeyBundle(binary)).toThrow(
+      expect.objectContaining({ code: "UNSUPPORTED_VERSION" })
+    );
+    expect(() => parsePublicKeyBundle(binary.subarray(0, 20))).toThrow(PublicKeyBundleError);
+    expect(() => parsePublicKeyBundle('{"hello":1}')).toThrow(
+      expect.objectContaining({ code: "INVALID_BUNDLE" })
+    );
+  });
+
+  it("exports from a client and seeds another", async () => {
+    const source = new FHEVMClient({ provider: "http://localhost:8545", chainId: 11155111 });
+    await source.init();
+
+    const exported = source.exportPublicKeyBundle();
+    expect(exported).toMatchObject({
+      chainId: 11155111,
+      aclAddress: bundle.aclAddress,
+      publicKey: { publicKeyId: "pk-1" },
+    });
+
+    const json = serializePublicKeyBundle(exported);
+    await new FHEVMClient({ provider: "http://localhost:8545", publicKeyBundle: json }).init();
+
+    expect(createFhevmInstance).toHaveBeenLastCalledWith(
+      expect.objectContaining({ publicKeyBundle: parsePublicKeyBundle(json) })
+    );
+  });
+
+  it("hands the downloaded keys to encryption workers", async () => {
+    const messages: any[] = [];
+    const worker = {
+      postMessage: (message: unknown) => messages.push(message),
+      addEventListener: vi.fn(),
+      terminate: vi.fn(),
+    };
+
+    const client = new FHEVMClient({
+      provider: "http://localhost:8545",
+      chainId: 11155111,
+      encryptionWorkers: { createWorker: () => worker as unknown as Worker },
+    });
+    await client.init();
+
+    expect(messages[0]).toMatchObject({
+      type: "init",
+      config: {
+        chainId: 11155111,
+        publicKeyBundle: { chainId: 11155111, aclAddress: bundle.aclAddress, publicKey: { publicKeyId: "pk-1" } },
+      },
+    });
+    client.dispose();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../src/internal/fhevm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/internal/fhevm")>();
+  return {
+    ...actual,
+    createFhevmInstance: vi.fn(async ({ chainId }: { chainId: number }) => ({
+      chainId,
+      publicDecrypt: vi.fn(async (handles: string[]) =>
+        Object.fromEntries(handles.map((h) => [h, BigInt(chainId)]))
+      ),
+    })),
+  };
+});
+
+import { FHEVMClientManager } from "../src/core/manager";
+import { createFhevmInstance } from "../src/internal/fhevm";
+
+describe("FHEVMClientManager", () => {
+  it("creates one client per chain and routes calls by chainId", async () => {
+    const manager = new FHEVMClientManager({
+      providers: { 1: "http://a", 2: "http://b" },
+    });
+
+    const [a, b, again] = await Promise.all([
+      manager.getClient(1),
+      manager.getClient(2),
+      manager.getClient(1),
+    ]);
+
+    expect(a).toBe(again);
+    expect(a).not.toBe(b);
+    expect(createFhevmInstance).toHaveBeenCalledTimes(2);
+    expect(await manager.publicDecrypt(2, ["0x01"])).toEqual({ "0x01": 2n });
+
+    manager.dispose();
+    expect(manager.chainIds).toEqual([]);
+  });
+
+  it("disposes idle clients and rejects unknown chains", async () => {
+    const manager = new FHEVMClientManager({
+      providers: (chainId) => (chainId === 1 ? "http://a" : undefined),
+      idleTimeoutMs: 1000,
+    });
+
+    await manager.getClient(1);
+    expect(manager.disposeIdle(Date.now() + 500)).toEqual([]);
+    expect(manager.disposeIdle(Date.now() + 1000)).toEqual([1]);
+    await expect(manager.getClient(3)).rejects.toThrow(/No provider configured/);
+
+    manager.dispose();
+  });
+
+  it("keeps retained clients through the idle sweep", async () => {
+    const manager = new FHEVMClientManager({ providers: { 1: "http://a" }, idleTimeoutMs: 1000 });
+    await manager.getClient(1);
+
+    const release = manager.retain(1);
+    const releaseAgain = manager.retain(1);
+    expect(manager.disposeIdle(Date.now() + 5000)).toEqual([]);
+
+    release();
+    release();
+    expect(manager.disposeIdle(Date.now() + 5000)).toEqual([]);
+
+    releaseAgain();
+    expect(manager.disposeIdle(Date.now() + 500)).toEqual([]);
+    expect(manager.disposeIdle(Date.now() + 5000)).toEqual([1]);
+
+    manager.dispose();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { FHEVMClient } from "../src/core/client";
+import { FheHandle } from "../src/core/handle";
+import { InMemoryFhevmInstance } from "../src/core/memoryInstance";
+import type { FhevmTypedDataSigner } from "../src/core/signer";
+
+const TOKEN = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const USER = "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359";
+const OTHER = "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB";
+
+const signer: FhevmTypedDataSigner = {
+  getAddress: async () => USER,
+  signTypedData: async () => `0x${"11".repeat(65)}`,
+};
+
+async function createClient(instance = new InMemoryFhevmInstance()) {
+  const client = new FHEVMClient({ provider: "http://localhost:8545", instance });
+  await client.init();
+  return { client, instance };
+}
+
+describe("InMemoryFhevmInstance", () => {
+  it("encrypts and decrypts through the client without a network", async () => {
+    const { client } = await createClient();
+
+    const { handles, inputProof } = await client.encrypt(
+      (input) => input.add64(42n).addBool(true).addAddress(OTHER.toLowerCase()),
+      { contractAddress: TOKEN, userAddress: USER }
+    );
+    expect(inputProof[0]).toBe(3);
+
+    const [amount, flag, recipient] = handles.map((h) => FheHandle.from(h));
+    expect(amount).toMatchObject({ fheType: "euint64", index: 0, chainId: 31337 });
+    expect(flag.fheType).toBe("ebool");
+
+    const results = await client.decrypt(
+      handles.map((h) => ({ handle: FheHandle.from(h).hex, contractAddress: TOKEN })),
+      signer
+    );
+    expect(results).toEqual({
+      [amount.hex]: 42n,
+      [flag.hex]: true,
+      [recipient.hex]: OTHER,
+    });
+  });
+
+  it("creates deterministic handles", async () => {
+    const encrypt = async () => {
+      const { client } = await createClient();
+      return client.encrypt((input) => input.add8(1), { contractAddress: TOKEN, userAddress: USER });
+    };
+
+    const [first, second] = await Promise.all([encrypt(), encrypt()]);
+    expect(first.handles[0]).toEqual(second.handles[0]);
+  });
+
+  it("enforces the ACL on user and public decryption", async () => {
+    const { client, instance } = await createClient();
+    const secret = instance.createHandle("euint32", 7, { allow: [TOKEN] });
+    const open = instance.createHandle("ebool", true, { publiclyDecryptable: true });
+
+    await expect(client.decrypt([{ handle: secret, contractAddress: TOKEN }], signer)).rejects.toThrow(
+      /not allowed/
+    );
+    await expect(client.publicDecrypt([secret])).rejects.toThrow(/not publicly decryptable/);
+
+    instance.allow(secret, USER);
+    await expect(
+      client.decrypt({ secret: { handle: secret, contractAddress: TOKEN, type: "euint32" } }, signer)
+    ).resolves.toEqual({ secret: 7n });
+    await expect(client.publicDecrypt([open])).resolves.toEqual({ [open]: true });
+    expect(instance.getPlaintext(secret)).toBe(7n);
+  });
+});
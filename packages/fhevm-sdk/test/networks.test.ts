@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { FhevmNetworkRegistry, FhevmNetworkError, SEPOLIA_NETWORK } from "../src/core/networks";
+
+const DEVNET = {
+  chainId: 31415,
+  aclContractAddress: "0x0000000000000000000000000000000000000001",
+  kmsContractAddress: "0x0000000000000000000000000000000000000002",
+  inputVerifierContractAddress: "0x0000000000000000000000000000000000000003",
+  verifyingContractAddressDecryption: "0x0000000000000000000000000000000000000004",
+  verifyingContractAddressInputVerification: "0x0000000000000000000000000000000000000005",
+  gatewayChainId: 55815,
+  relayerUrl: "https://relayer.devnet.example.com",
+} as const;
+
+describe("FhevmNetworkRegistry", () => {
+  it("contains Sepolia by default", () => {
+    expect(new FhevmNetworkRegistry().get(11155111)).toEqual(SEPOLIA_NETWORK);
+  });
+
+  it("registers new networks and overrides existing ones", () => {
+    const registry = new FhevmNetworkRegistry({
+      [DEVNET.chainId]: DEVNET,
+      11155111: { relayerUrl: "https://proxy.example.com" },
+    });
+    expect(registry.get(31415).aclContractAddress).toBe(DEVNET.aclContractAddress);
+    expect(registry.get(11155111).relayerUrl).toBe("https://proxy.example.com");
+    expect(registry.get(11155111).aclContractAddress).toBe(SEPOLIA_NETWORK.aclContractAddress);
+  });
+
+  it("rejects incomplete entries and unknown chains", () => {
+    expect(() => new FhevmNetworkRegistry({ 1: { relayerUrl: "https://x" } })).toThrow(FhevmNetworkError);
+    expect(() => new FhevmNetworkRegistry().get(1)).toThrow(/not a registered fhEVM network/);
+  });
+});
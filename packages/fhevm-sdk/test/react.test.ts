@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { createElement, StrictMode, act } from "react";
+import { createRoot } from "react-dom/client";
+import { useFHEVMManager, useFHEVMChain, type UseFHEVMChainResult } from "../src/adapters/react/useFHEVMManager";
+import { useFHEVM } from "../src/adapters/react/useFHEVM";
+import { InMemoryFhevmInstance } from "../src/core/memoryInstance";
+import type { FHEVMClientManager } from "../src/core/manager";
+import { renderHook } from "../src/testing/react";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+async function renderChain() {
+  const rendered: { manager?: FHEVMClientManager; chain?: UseFHEVMChainResult } = {};
+
+  function Chain() {
+    const manager = useFHEVMManager({
+      providers: { 31337: "http://localhost:8545" },
+      clientConfig: { instance: new InMemoryFhevmInstance() },
+    });
+    rendered.manager = manager;
+    rendered.chain = useFHEVMChain(manager, 31337);
+    return null;
+  }
+
+  const root = createRoot(document.createElement("div"));
+  await act(async () => root.render(createElement(StrictMode, null, createElement(Chain))));
+  return { root, rendered };
+}
+
+describe("react useFHEVMManager", () => {
+  it("keeps the manager across a StrictMode remount and disposes it on unmount", async () => {
+    const { root, rendered } = await renderChain();
+    const { manager, chain } = rendered;
+
+    expect(chain!.isReady).toBe(true);
+    expect(manager!.chainIds).toEqual([31337]);
+
+    await act(async () => root.unmount());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(manager!.chainIds).toEqual([]);
+    expect(chain!.client!.status).toBe("idle");
+  });
+
+  it("keeps a mounted chain's client through the idle sweep", async () => {
+    const { root, rendered } = await renderChain();
+    const client = rendered.chain!.client;
+
+    await act(async () => rendered.manager!.disposeIdle(Date.now() + 60 * 60 * 1000));
+
+    expect(rendered.chain!.client).toBe(client);
+    expect(rendered.chain!.isReady).toBe(true);
+    expect(rendered.manager!.peekClient(31337)).toBe(client);
+
+    await act(async () => root.unmount());
+  });
+});
+
+describe("react useFHEVM", () => {
+  it("rebuilds the client when the injected instance changes", async () => {
+    const first = new InMemoryFhevmInstance();
+    const second = new InMemoryFhevmInstance();
+    let instance = first;
+    const { result, rerender, unmount } = await renderHook(() =>
+      useFHEVM({ provider: "http://localhost:8545", chainId: 31337, enabled: true, instance })
+    );
+    expect(result.current.instance).toBe(first);
+    const previous = result.current.client;
+
+    instance = second;
+    await rerender();
+
+    expect(result.current.instance).toBe(second);
+    expect(previous?.status).toBe("idle");
+    await unmount();
+  });
+});
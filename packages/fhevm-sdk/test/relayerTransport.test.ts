@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  hasRelayerTransportOptions,
+  getRelayerRetryAfter,
+  registerRelayerTransport,
+} from "../src/internal/relayerTransport";
+
+describe("registerRelayerTransport", () => {
+  const realFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it("adds headers to relayer requests only and restores fetch", async () => {
+    const base = vi.fn(async () => new Response("{}"));
+    globalThis.fetch = base as typeof fetch;
+
+    const unregister = registerRelayerTransport("https://relayer.example.com/", {
+      headers: { "x-api-key": "secret" },
+    });
+
+    await fetch("https://relayer.example.com/v1/input-proof", { method: "POST" });
+    await fetch("https://other.example.com/v1/input-proof");
+
+    const relayerInit = base.mock.calls[0][1] as RequestInit;
+    expect(new Headers(relayerInit.headers).get("x-api-key")).toBe("secret");
+    expect(base.mock.calls[1][1]).toBeUndefined();
+
+    unregister();
+    expect(globalThis.fetch).toBe(base);
+  });
+
+  it("uses the custom fetch for relayer requests", async () => {
+    const base = vi.fn(async () => new Response("{}"));
+    const custom = vi.fn(async () => new Response("{}"));
+    globalThis.fetch = base as typeof fetch;
+
+    const unregister = registerRelayerTransport("https://relayer.example.com", { fetch: custom });
+    await fetch("https://relayer.example.com/v1/public-decrypt");
+    unregister();
+
+    expect(custom).toHaveBeenCalledTimes(1);
+    expect(base).not.toHaveBeenCalled();
+  });
+
+  it("attaches the Retry-After of a 429 response to that response", async () => {
+    globalThis.fetch = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).endsWith("/busy")
+        ? new Response("", { status: 429, headers: { "retry-after": "2" } })
+        : new Response("{}")
+    ) as typeof fetch;
+
+    // Observing only: no headers or fetch
+    const unregister = registerRelayerTransport("https://relayer.example.com", {});
+    const [busy, ok, other] = await Promise.all([
+      fetch("https://relayer.example.com/v1/busy"),
+      fetch("https://relayer.example.com/v1/ok"),
+      fetch("https://relayer.example.com/v2/busy"),
+    ]);
+    unregister();
+
+    expect(busy.status).toBe(429);
+    expect(getRelayerRetryAfter(busy.url)).toBe("2");
+    expect(getRelayerRetryAfter(other.url)).toBe("2");
+    expect(getRelayerRetryAfter(ok.url)).toBeUndefined();
+    expect(getRelayerRetryAfter("https://relayer.example.com/v1/busy")).toBeUndefined();
+  });
+
+  it("lets observing routes join a relayer with options", async () => {
+    const base = vi.fn(async () => new Response("{}"));
+    globalThis.fetch = base as typeof fetch;
+
+    const observer = registerRelayerTransport("https://relayer.example.com", {});
+    const configured = registerRelayerTransport("https://relayer.example.com", { headers: { "x-api-key": "a" } });
+    await fetch("https://relayer.example.com/v1/keyurl");
+    const init = (base.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect(new Headers(init.headers).get("x-api-key")).toBe("a");
+
+    configured();
+    observer();
+    expect(globalThis.fetch).toBe(base);
+  });
+
+  it("leaves fetch alone without headers or a custom fetch", () => {
+    expect(hasRelayerTransportOptions({})).toBe(false);
+    expect(hasRelayerTransportOptions({ headers: {} })).toBe(false);
+    expect(hasRelayerTransportOptions({ headers: { "x-api-key": "secret" } })).toBe(true);
+  });
+
+  it("shares a relayer between clients only with the same options", async () => {
+    const base = vi.fn(async () => new Response("{}"));
+    globalThis.fetch = base as typeof fetch;
+
+    const first = registerRelayerTransport("https://relayer.example.com", { headers: { "X-Api-Key": "a" } });
+    expect(() =>
+      registerRelayerTransport("https://relayer.example.com/", { headers: { "x-api-key": "b" } })
+    ).toThrow(/already used with other relayerHeaders/);
+    expect(() =>
+      registerRelayerTransport("https://relayer.example.com", { headers: { "x-api-key": "a" }, fetch: base })
+    ).toThrow(/already used/);
+
+    const second = registerRelayerTransport("https://relayer.example.com", { headers: { "x-api-key": "a" } });
+    first();
+    await fetch("https://relayer.example.com/v1/keyurl");
+    const init = (base.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect(new Headers(init.headers).get("x-api-key")).toBe("a");
+
+    second();
+    expect(globalThis.fetch).toBe(base);
+  });
+});
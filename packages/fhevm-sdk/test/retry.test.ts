@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../src/internal/fhevm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/internal/fhevm")>();
+  return { ...actual, createFhevmInstance: vi.fn() };
+});
+
+import { createFhevmInstance } from "../src/internal/fhevm";
+import { FHEVMClient } from "../src/core/client";
+import { FhevmAbortError } from "../src/core/abort";
+import {
+  withRetry,
+  computeBackoffDelay,
+  parseRetryAfter,
+  isRetryableError,
+  FhevmTimeoutError,
+} from "../src/core/retry";
+
+function relayerError(status?: number, code = "RELAYER_FETCH_ERROR") {
+  return new Error("Relayer failed", { cause: { code, status } });
+}
+
+describe("retry policy", () => {
+  it("computes exponential backoff capped by maxDelayMs", () => {
+    const policy = { initialDelayMs: 100, backoffFactor: 2, maxDelayMs: 300, jitter: 0 };
+    expect(computeBackoffDelay(1, policy)).toBe(100);
+    expect(computeBackoffDelay(2, policy)).toBe(200);
+    expect(computeBackoffDelay(3, policy)).toBe(300);
+    expect(computeBackoffDelay(1, { ...policy, jitter: 0.5 }, () => 1)).toBe(50);
+  });
+
+  it("parses Retry-After seconds and dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(new Date(10_000).toUTCString(), 4_000)).toBe(6000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it("retries transient relayer failures only", () => {
+    expect(isRetryableError(relayerError(503), 1)).toBe(true);
+    expect(isRetryableError(relayerError(undefined, "RELAYER_UNKNOWN_ERROR"), 1)).toBe(true);
+    expect(isRetryableError(relayerError(400), 1)).toBe(false);
+    expect(isRetryableError(new Error("boom"), 1)).toBe(false);
+  });
+
+  it("runs once without a policy", async () => {
+    const run = vi.fn().mockRejectedValue(relayerError(503));
+    await expect(withRetry(run, { operation: "decrypt" })).rejects.toThrow("Relayer failed");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries until success and reports each retry", async () => {
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(relayerError(503))
+      .mockRejectedValueOnce(relayerError(429))
+      .mockResolvedValue("ok");
+    const onRetry = vi.fn();
+    const getRetryAfterMs = vi.fn((_error: Error) => 5);
+
+    const result = await withRetry(run, {
+      operation: "publicDecrypt",
+      policy: { maxAttempts: 3, initialDelayMs: 1, jitter: 0 },
+      onRetry,
+      getRetryAfterMs,
+    });
+
+    expect(result).toBe("ok");
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => info.delayMs)).toEqual([1, 5]);
+    // Only asked for the 429, with that attempt's error
+    expect(getRetryAfterMs).toHaveBeenCalledOnce();
+    expect(getRetryAfterMs.mock.calls[0][0].cause).toMatchObject({ status: 429 });
+  });
+
+  it("rejects with FhevmTimeoutError when the deadline passes", async () => {
+    const run = () => new Promise<never>(() => {});
+    await expect(
+      withRetry(run, { operation: "encrypt", timeoutMs: 10 })
+    ).rejects.toBeInstanceOf(FhevmTimeoutError);
+  });
+});
+
+describe("FHEVMClient Retry-After", () => {
+  it("observes relayer responses and waits for the failed call's Retry-After", async () => {
+    const publicDecrypt = vi.fn(async () => {
+      throw new Error("Relayer rate limit exceeded", {
+        cause: {
+          code: "RELAYER_FETCH_ERROR",
+          status: 429,
+          url: "https://relayer.example.com/v1/public-decrypt#retry-after=7",
+        },
+      });
+    });
+    vi.mocked(createFhevmInstance).mockResolvedValue({ publicDecrypt } as any);
+
+    const client = new FHEVMClient({
+      provider: "http://localhost:8545",
+      retry: { maxAttempts: 2, initialDelayMs: 10, jitter: 0 },
+    });
+    await client.init();
+    expect(createFhevmInstance).toHaveBeenCalledWith(
+      expect.objectContaining({ relayer: expect.objectContaining({ observeRetryAfter: true }) })
+    );
+
+    // Stop at the scheduled retry instead of waiting for it
+    const controller = new AbortController();
+    const retries: number[] = [];
+    client.on("operation:retry", ({ delayMs }) => {
+      retries.push(delayMs);
+      controller.abort();
+    });
+
+    await expect(
+      client.publicDecrypt(["0x" + "ab".repeat(32)], { signal: controller.signal })
+    ).rejects.toBeInstanceOf(FhevmAbortError);
+    expect(retries).toEqual([7000]);
+    client.dispose();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@zama-fhe/relayer-sdk/bundle", () => ({ initSDK: vi.fn() }));
+
+import { loadRelayerSDK } from "../src/internal/RelayerSDKLoader";
+import { getRelayerSDKCdnUrl, isCompatibleRelayerSDKVersion, RelayerSDKLoadError } from "../src/core/sdkSource";
+
+const fakeSDK = () => ({ initSDK: vi.fn(), createInstance: vi.fn(), SepoliaConfig: {} });
+
+/** Run the injected script: define window.relayerSDK and fire its load event */
+function runInjectedScript(url: string, sdk: object) {
+  const script = document.querySelector<HTMLScriptElement>(`script[src="${url}"]`)!;
+  (window as any).relayerSDK = sdk;
+  script.onload!(new Event("load"));
+  return script;
+}
+
+afterEach(() => {
+  delete (window as any).relayerSDK;
+  document.head.querySelectorAll("script").forEach((s) => s.remove());
+});
+
+describe("loadRelayerSDK", () => {
+  it("injects the pinned CDN build with its integrity hash", async () => {
+    const sdk = fakeSDK();
+    const loading = loadRelayerSDK({ type: "cdn", integrity: "sha384-abc" });
+    const script = runInjectedScript(getRelayerSDKCdnUrl(), sdk);
+
+    await expect(loading).resolves.toBe(sdk);
+    expect(script.integrity).toBe("sha384-abc");
+    expect(script.crossOrigin).toBe("anonymous");
+  });
+
+  it("rejects a self-hosted build of another version", async () => {
+    const loading = loadRelayerSDK({ type: "self-hosted", url: "/sdk/relayer.umd.cjs", version: "0.3.1" });
+    runInjectedScript("/sdk/relayer.umd.cjs", fakeSDK());
+
+    const error = await loading.catch((e) => e);
+    expect(error).toBeInstanceOf(RelayerSDKLoadError);
+    expect(error.code).toBe("VERSION_MISMATCH");
+  });
+
+  it("validates the npm module", async () => {
+    await expect(loadRelayerSDK({ type: "npm" })).rejects.toMatchObject({ code: "INVALID_SDK" });
+  });
+
+  it("compares major and 0.x minor versions", () => {
+    expect(isCompatibleRelayerSDKVersion("0.2.5", "0.2.0")).toBe(true);
+    expect(isCompatibleRelayerSDKVersion("0.3.0", "0.2.0")).toBe(false);
+    expect(isCompatibleRelayerSDKVersion("v1.4.0", "1.0.0")).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import { Wallet, verifyTypedData } from "ethers";
+import {
+  fromEip1193Provider,
+  fromEthersWallet,
+  fromViemWalletClient,
+  getPrimaryType,
+} from "../src/core/signer";
+
+const domain = {
+  name: "Decryption",
+  version: "1",
+  chainId: 11155111,
+  verifyingContract: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+};
+const types = {
+  UserDecryptRequestVerification: [
+    { name: "publicKey", type: "bytes" },
+    { name: "contractAddresses", type: "address[]" },
+    { name: "startTimestamp", type: "uint256" },
+    { name: "durationDays", type: "uint256" },
+  ],
+};
+const message = {
+  publicKey: "0x1234",
+  contractAddresses: ["0x1111111111111111111111111111111111111111"],
+  startTimestamp: 1700000000,
+  durationDays: 365,
+};
+
+describe("signer adapters", () => {
+  it("finds the primary type", () => {
+    expect(getPrimaryType(types)).toBe("UserDecryptRequestVerification");
+  });
+
+  it("signs with an unconnected ethers Wallet", async () => {
+    const wallet = new Wallet("0x" + "11".repeat(32));
+    const signer = fromEthersWallet(wallet);
+
+    const signature = await signer.signTypedData(domain, types, message);
+
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(verifyTypedData(domain, types, message, signature)).toBe(wallet.address);
+  });
+
+  it("sends eth_signTypedData_v4 with the EIP712Domain type", async () => {
+    const request = vi.fn(async ({ method }: { method: string }) =>
+      method === "eth_accounts" ? ["0xabc0000000000000000000000000000000000001"] : "0xsig"
+    );
+    const signer = fromEip1193Provider({ request });
+
+    expect(await signer.signTypedData(domain, types, message)).toBe("0xsig");
+
+    const [from, payload] = request.mock.calls[1][0].params as [string, string];
+    const typedData = JSON.parse(payload);
+    expect(from).toBe("0xabc0000000000000000000000000000000000001");
+    expect(typedData.primaryType).toBe("UserDecryptRequestVerification");
+    expect(typedData.types.EIP712Domain.map((f: { name: string }) => f.name)).toEqual([
+      "name",
+      "version",
+      "chainId",
+      "verifyingContract",
+    ]);
+  });
+
+  it("passes the primary type and account to a viem wallet client", async () => {
+    const signTypedData = vi.fn(async () => "0xsig" as const);
+    const client = {
+      account: undefined,
+      getAddresses: async () => ["0xabc0000000000000000000000000000000000002" as const],
+      signTypedData,
+    };
+    const signer = fromViemWalletClient(client);
+
+    await signer.signTypedData(domain, types, message);
+
+    expect(signTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        account: "0xabc0000000000000000000000000000000000002",
+        primaryType: "UserDecryptRequestVerification",
+      })
+    );
+  });
+});
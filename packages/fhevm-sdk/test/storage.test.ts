@@ -1,5 +1,19 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { GenericStringInMemoryStorage } from "../src/storage/GenericStringStorage";
+import {
+  PublicKeyFileSystemCache,
+  PublicKeyInMemoryCache,
+  PublicKeyIndexedDBCache,
+  type PublicKeyCache,
+} from "../src/storage/PublicKeyCache";
+import {
+  publicKeyStorageGet,
+  publicKeyStorageSeed,
+  publicKeyStorageSet,
+} from "../src/internal/PublicKeyStorage";
 
 describe("GenericStringInMemoryStorage", () => {
   it("sets/gets/removes values", async () => {
@@ -11,3 +25,139 @@ describe("GenericStringInMemoryStorage", () => {
   });
 });
 
+const acl = "0x687820221192C5B662b25367F70076A37bc79b6c";
+const entry = {
+  publicKey: { publicKeyId: "pk-1", publicKey: new Uint8Array([1, 2, 3]) },
+  publicParams: { publicParamsId: "crs-1", publicParams: new Uint8Array([4, 5]) },
+};
+
+// Compare bytes, not Uint8Array realms (fake-indexeddb clones outside jsdom)
+const bytes = (value: Awaited<ReturnType<PublicKeyCache["get"]>>) =>
+  value && {
+    publicKey: { ...value.publicKey, publicKey: Array.from(value.publicKey.publicKey) },
+    publicParams: { ...value.publicParams, publicParams: Array.from(value.publicParams.publicParams) },
+  };
+
+async function roundTrip(cache: PublicKeyCache) {
+  expect(await cache.get(acl)).toBe(null);
+  await cache.set(acl, entry);
+  expect(bytes(await cache.get(acl))).toEqual(bytes(entry));
+  await cache.remove(acl);
+  expect(await cache.get(acl)).toBe(null);
+}
+
+describe("PublicKeyCache", () => {
+  it("in-memory", () => roundTrip(new PublicKeyInMemoryCache()));
+
+  it("IndexedDB", () => roundTrip(new PublicKeyIndexedDBCache("fhevm-test")));
+
+  it("filesystem, shared between instances", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "fhevm-keys-"));
+    try {
+      await roundTrip(new PublicKeyFileSystemCache(directory));
+
+      await new PublicKeyFileSystemCache(directory).set(acl, entry);
+      expect(bytes(await new PublicKeyFileSystemCache(directory).get(acl))).toEqual(bytes(entry));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("feeds instance config and ignores backend failures", async () => {
+    const cache = new PublicKeyInMemoryCache();
+    await publicKeyStorageSet(cache, acl, entry.publicKey, entry.publicParams);
+
+    expect(await publicKeyStorageGet(cache, acl)).toEqual({
+      publicKey: { id: "pk-1", data: entry.publicKey.publicKey },
+      publicParams: { "2048": entry.publicParams },
+      upToDate: true,
+    });
+
+    const broken: PublicKeyCache = {
+      get: () => Promise.reject(new Error("down")),
+      set: () => Promise.reject(new Error("down")),
+      remove: () => {},
+    };
+    await expect(publicKeyStorageSet(broken, acl, entry.publicKey, null)).resolves.toBeUndefined();
+    expect(await publicKeyStorageGet(broken, acl)).toEqual({ publicParams: null, upToDate: false });
+  });
+});
+
+describe("public key revalidation", () => {
+  const cached = async (fetchedAt: number) => {
+    const cache = new PublicKeyInMemoryCache();
+    await publicKeyStorageSet(cache, acl, entry.publicKey, entry.publicParams, {
+      ttlMs: 1000,
+      now: () => fetchedAt,
+    });
+    return cache;
+  };
+
+  it("trusts the cache within its TTL", async () => {
+    const cache = await cached(0);
+    const fetchKeyIds = vi.fn();
+
+    const pub = await publicKeyStorageGet(cache, acl, { fetchKeyIds, now: () => 999 });
+
+    expect(pub.upToDate).toBe(true);
+    expect(fetchKeyIds).not.toHaveBeenCalled();
+  });
+
+  it("renews the timestamp when the relayer confirms the ids", async () => {
+    const cache = await cached(0);
+    const fetchKeyIds = vi.fn(async () => ({ publicKeyIds: ["pk-1"], publicParamsId: "crs-1" }));
+
+    const pub = await publicKeyStorageGet(cache, acl, { fetchKeyIds, now: () => 5000 });
+
+    expect(pub.upToDate).toBe(true);
+    expect(pub.publicKey?.id).toBe("pk-1");
+    expect(cache.get(acl)?.fetchedAt).toBe(5000);
+  });
+
+  it("drops a rotated key and reports it", async () => {
+    const cache = await cached(0);
+    const onRotation = vi.fn();
+
+    const pub = await publicKeyStorageGet(cache, acl, {
+      fetchKeyIds: async () => ({ publicKeyIds: ["pk-2"], publicParamsId: "crs-1" }),
+      onRotation,
+      now: () => 5000,
+    });
+
+    expect(pub.upToDate).toBe(false);
+    expect(pub.publicKey).toBeUndefined();
+    expect(pub.publicParams?.["2048"].publicParamsId).toBe("crs-1");
+    expect(onRotation).toHaveBeenCalledWith({
+      aclAddress: acl,
+      previous: { publicKeyId: "pk-1", publicParamsId: "crs-1" },
+      current: { publicKeyIds: ["pk-2"], publicParamsId: "crs-1" },
+    });
+  });
+
+  it("keeps the cache when the relayer is unreachable", async () => {
+    const cache = await cached(0);
+
+    const pub = await publicKeyStorageGet(cache, acl, {
+      fetchKeyIds: () => Promise.reject(new Error("offline")),
+      now: () => 5000,
+    });
+
+    expect(pub.upToDate).toBe(true);
+    expect(pub.publicKey?.id).toBe("pk-1");
+  });
+});
+
+describe("public key seeding", () => {
+  it("fills an empty cache only", async () => {
+    const cache = new PublicKeyInMemoryCache();
+    const seeded = { ...entry, fetchedAt: 1 };
+
+    await publicKeyStorageSeed(cache, acl, seeded);
+    expect(cache.get(acl)).toEqual(seeded);
+
+    const newer = { ...entry, publicKey: { publicKeyId: "pk-2", publicKey: new Uint8Array([9]) } };
+    await publicKeyStorageSet(cache, acl, newer.publicKey, newer.publicParams);
+    await publicKeyStorageSeed(cache, acl, seeded);
+    expect(cache.get(acl)?.publicKey?.publicKeyId).toBe("pk-2");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import "../src/testing/vitest";
+import {
+  createDecryptionSignatureFixture,
+  createHandleFixture,
+  createTestClient,
+  FakeTypedDataSigner,
+  TEST_CONTRACT_ADDRESS,
+} from "../src/testing";
+import { createFHEVMReactHarness, renderHook } from "../src/testing/react";
+import { createFHEVMVueHarness, withSetup } from "../src/testing/vue";
+import { useFHEVM as useReactFHEVM } from "../src/adapters/react/useFHEVM";
+import { useFHEVM } from "../src/adapters/vue/useFHEVM";
+
+const OTHER_USER = "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB";
+
+describe("testing utilities", () => {
+  it("builds handle and signature fixtures", async () => {
+    const handle = createHandleFixture({ type: "ebool", chainId: 11155111 });
+    expect(handle).toBeValidHandle("ebool");
+    expect(handle).not.toBeValidHandle("euint8");
+    expect("0x1234").not.toBeValidHandle();
+    expect(createHandleFixture({ seed: 1 })).toBe(createHandleFixture({ seed: 1 }));
+
+    const expired = await createDecryptionSignatureFixture({
+      startTimestamp: Math.floor(Date.now() / 1000) - 2 * 86400,
+      durationDays: 1,
+    });
+    expect(expired.isValid()).toBe(false);
+    expect(expired.contractAddresses).toEqual([TEST_CONTRACT_ADDRESS]);
+  });
+
+  it("records signer prompts and signature storage accesses", async () => {
+    const { client, instance, signer, storage } = await createTestClient();
+    const { handles } = await client.encrypt((input) => input.add32(5).addBool(false), {
+      contractAddress: TEST_CONTRACT_ADDRESS,
+      userAddress: signer.address,
+    });
+    expect(handles[0]).toDecryptTo(5);
+    expect(handles[1]).toDecryptTo(false, instance);
+    expect(handles[0]).not.toDecryptTo(6n);
+
+    const balance = instance.createHandle("euint64", 9n, { allow: [TEST_CONTRACT_ADDRESS, signer.address] });
+    const requests = [{ handle: balance, contractAddress: TEST_CONTRACT_ADDRESS }];
+    await client.decrypt(requests, signer);
+    await client.decrypt(requests, signer);
+    expect(signer.requests).toHaveLength(1);
+    expect(storage.accesses.filter((a) => a.method === "setItem")).toHaveLength(1);
+
+    const rejecting = new FakeTypedDataSigner(OTHER_USER);
+    rejecting.rejectWith = new Error("User rejected the request");
+    await expect(client.decrypt(requests, rejecting)).rejects.toThrow();
+    expect(rejecting.requests).toHaveLength(1);
+  });
+
+  it("provides ready React and Vue harnesses", async () => {
+    const react = await createFHEVMReactHarness();
+    expect(react.fhevm.isReady).toBe(true);
+    expect(react.fhevm.instance).toBe(react.instance);
+    const rendered = await renderHook(() => useReactFHEVM(react.config));
+    expect(rendered.result.current.isReady).toBe(true);
+    expect(rendered.result.current.instance).toBe(react.instance);
+    const { client } = rendered.result.current;
+    await rendered.unmount();
+    expect(client?.status).toBe("idle");
+
+    const vue = await createFHEVMVueHarness();
+    const { result, unmount } = withSetup(() => useFHEVM(vue.config));
+    await vi.waitFor(() => expect(result.isReady.value).toBe(true));
+    expect(result.client.value?.getInstance()).toBe(vue.instance);
+    unmount();
+  });
+});
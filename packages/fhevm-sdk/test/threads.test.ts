@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("../src/internal/fhevm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/internal/fhevm")>();
+  return { ...actual, createFhevmInstance: vi.fn(async () => ({})) };
+});
+
+import { createFhevmInstance } from "../src/internal/fhevm";
+import { FHEVMClient } from "../src/core/client";
+import { getWasmThreadingSupport } from "../src/core/threads";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.mocked(createFhevmInstance).mockClear();
+});
+
+describe("getWasmThreadingSupport", () => {
+  it("requires cross-origin isolation in browsers", () => {
+    vi.stubGlobal("crossOriginIsolated", false);
+    const support = getWasmThreadingSupport();
+    expect(support.supported).toBe(false);
+    expect(support.reason).toContain("Cross-Origin-Embedder-Policy");
+  });
+
+  it("requires SharedArrayBuffer", () => {
+    vi.stubGlobal("crossOriginIsolated", true);
+    vi.stubGlobal("SharedArrayBuffer", undefined);
+    expect(getWasmThreadingSupport()).toMatchObject({
+      supported: false,
+      sharedArrayBuffer: false,
+      crossOriginIsolated: true,
+    });
+  });
+});
+
+describe("FHEVMClient initSDK options", () => {
+  it("passes thread and WASM params to initSDK", async () => {
+    vi.stubGlobal("crossOriginIsolated", true);
+    const client = new FHEVMClient({ provider: "http://rpc", chainId: 1, thread: 4, tfheParams: "tfhe.wasm" });
+    await client.init();
+
+    expect(vi.mocked(createFhevmInstance).mock.calls[0][0].initSDK).toEqual({
+      thread: 4,
+      tfheParams: "tfhe.wasm",
+      kmsParams: undefined,
+    });
+  });
+
+  it("falls back to a single thread with a warning event", async () => {
+    vi.stubGlobal("crossOriginIsolated", false);
+    const client = new FHEVMClient({ provider: "http://rpc", chainId: 1, thread: 4 });
+    const warning = vi.fn();
+    client.on("sdk:threadsUnavailable", warning);
+    await client.init();
+
+    expect(warning).toHaveBeenCalledWith(
+      expect.objectContaining({ requestedThreads: 4, crossOriginIsolated: false })
+    );
+    expect(vi.mocked(createFhevmInstance).mock.calls[0][0].initSDK?.thread).toBeUndefined();
+  });
+});
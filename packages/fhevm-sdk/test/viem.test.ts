@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import { createWalletClient, custom, verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { sepolia } from "viem/chains";
+
+// The viem entry must work without ethers installed
+vi.mock("ethers", () => {
+  throw new Error("ethers must not be loaded");
+});
+
+const contractAddress = "0x1111111111111111111111111111111111111111";
+const handle = "0x" + "ab".repeat(32);
+
+const instance = {
+  createEIP712: vi.fn((publicKey: string, contractAddresses: string[], startTimestamp: number, durationDays: number) => ({
+    domain: {
+      name: "Decryption",
+      version: "1",
+      chainId: 11155111,
+      verifyingContract: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+    },
+    primaryType: "UserDecryptRequestVerification",
+    types: {
+      UserDecryptRequestVerification: [
+        { name: "publicKey", type: "bytes" },
+        { name: "contractAddresses", type: "address[]" },
+        { name: "startTimestamp", type: "uint256" },
+        { name: "durationDays", type: "uint256" },
+      ],
+    },
+    message: { publicKey, contractAddresses, startTimestamp, durationDays },
+  })),
+  generateKeypair: vi.fn(() => ({ publicKey: "0x1234", privateKey: "0x5678" })),
+  userDecrypt: vi.fn(async (requests: { handle: string }[]) =>
+    Object.fromEntries(requests.map((r) => [r.handle, 42n]))
+  ),
+  publicDecrypt: vi.fn(async (handles: string[]) =>
+    Object.fromEntries(handles.map((h) => [h, true]))
+  ),
+  createEncryptedInput: vi.fn(() => ({
+    add32: vi.fn(),
+    encrypt: async () => ({ handles: [new Uint8Array(32)], inputProof: new Uint8Array(1) }),
+  })),
+};
+
+vi.mock("../src/internal/fhevm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/internal/fhevm")>();
+  return { ...actual, createFhevmInstance: vi.fn(async () => instance) };
+});
+
+import { fhevmActions } from "../src/adapters/viem";
+import { createFhevmInstance } from "../src/internal/fhevm";
+
+const account = privateKeyToAccount(`0x${"11".repeat(32)}`);
+
+function createClient() {
+  return createWalletClient({
+    account,
+    chain: sepolia,
+    transport: custom({ request: async () => "0xaa36a7" }),
+  }).extend(fhevmActions);
+}
+
+describe("viem actions", () => {
+  it("creates one instance per client on the client's chain", async () => {
+    const client = createClient();
+
+    const [a, b] = await Promise.all([
+      client.publicDecrypt({ handles: [handle] }),
+      client.publicDecrypt({ handles: [handle] }),
+    ]);
+
+    expect(a).toEqual({ [handle]: true });
+    expect(b).toEqual(a);
+    expect(createFhevmInstance).toHaveBeenCalledTimes(1);
+    expect(createFhevmInstance).toHaveBeenCalledWith(expect.objectContaining({ chainId: sepolia.id }));
+  });
+
+  it("encrypts for the client's account", async () => {
+    const client = createClient();
+
+    const { handles } = await client.encryptInput({
+      contractAddress,
+      build: (input) => input.add32(7),
+    });
+
+    expect(handles).toHaveLength(1);
+    expect(instance.createEncryptedInput).toHaveBeenLastCalledWith(contractAddress, account.address);
+  });
+
+  it("signs the user decryption request with the viem account", async () => {
+    const client = createClient();
+
+    const results = await client.userDecrypt({ requests: [{ handle, contractAddress }] });
+
+    expect(results).toEqual({ [handle]: 42n });
+    const [, , , signature, contractAddresses, userAddress, startTimestamp, durationDays] =
+      instance.userDecrypt.mock.calls[0] as unknown as [unknown, string, string, `0x${string}`, string[], string, number, number];
+    expect(userAddress).toBe(account.address);
+
+    const eip712 = instance.createEIP712("0x1234", contractAddresses, startTimestamp, durationDays);
+    await expect(
+      verifyTypedData({ address: account.address, ...eip712, signature } as Parameters<typeof verifyTypedData>[0])
+    ).resolves.toBe(true);
+
+    // The signature is cached under a key hashed with viem
+    await client.userDecrypt({ requests: [{ handle, contractAddress }] });
+    expect(instance.generateKeypair).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { createApp, defineComponent } from "vue";
+import { useFHEVM, type UseFHEVMComposable } from "../src/adapters/vue/useFHEVM";
+import { useFHEVMChain, type UseFHEVMChainComposable } from "../src/adapters/vue/useFHEVMManager";
+import { FHEVMClientManager } from "../src/core/manager";
+import { InMemoryFhevmInstance } from "../src/core/memoryInstance";
+
+function mountUseFHEVM(instance = new InMemoryFhevmInstance()) {
+  let result!: UseFHEVMComposable;
+  const app = createApp(
+    defineComponent({
+      setup() {
+        result = useFHEVM({ provider: "http://localhost:8545", instance, watchProvider: false });
+        return () => null;
+      },
+    })
+  );
+  app.mount(document.createElement("div"));
+  return { app, result };
+}
+
+describe("vue useFHEVM", () => {
+  it("exposes the client unwrapped and disposes it on unmount", async () => {
+    const { app, result } = mountUseFHEVM();
+    await vi.waitFor(() => expect(result.isReady.value).toBe(true));
+
+    const client = result.client.value!;
+    expect(client.getInstance()).toBe(result.instance.value);
+
+    const dispose = vi.spyOn(client, "dispose");
+    expect(() => app.unmount()).not.toThrow();
+    expect(dispose).toHaveBeenCalledOnce();
+    expect(result.status.value).toBe("idle");
+  });
+
+  it("leaves provider events alone unless watchProvider is set", async () => {
+    const provider = { request: vi.fn(), on: vi.fn(), removeListener: vi.fn() };
+    let result!: UseFHEVMComposable;
+    const app = createApp(
+      defineComponent({
+        setup() {
+          result = useFHEVM({ provider, instance: new InMemoryFhevmInstance() });
+          return () => null;
+        },
+      })
+    );
+    app.mount(document.createElement("div"));
+    await vi.waitFor(() => expect(result.isReady.value).toBe(true));
+
+    expect(provider.on).not.toHaveBeenCalled();
+    app.unmount();
+  });
+});
+
+describe("vue useFHEVMChain", () => {
+  it("keeps a mounted chain's client through the idle sweep", async () => {
+    const manager = new FHEVMClientManager({
+      providers: { 31337: "http://localhost:8545" },
+      clientConfig: { instance: new InMemoryFhevmInstance() },
+    });
+    let chain!: UseFHEVMChainComposable;
+    const app = createApp(
+      defineComponent({
+        setup() {
+          chain = useFHEVMChain(manager, 31337);
+          return () => null;
+        },
+      })
+    );
+    app.mount(document.createElement("div"));
+    await vi.waitFor(() => expect(chain.isReady.value).toBe(true));
+
+    expect(manager.disposeIdle(Date.now() + 60 * 60 * 1000)).toEqual([]);
+    expect(chain.client.value).toBe(manager.peekClient(31337));
+
+    app.unmount();
+    expect(manager.disposeIdle(Date.now() + 60 * 60 * 1000)).toEqual([31337]);
+    manager.dispose();
+  });
+});
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+const webBuild = vi.hoisted(() => ({
+  initSDK: vi.fn(async () => {
+    throw new Error("no WASM in this test");
+  }),
+  createInstance: vi.fn(),
+  SepoliaConfig: {},
+  version: "0.2.0",
+}));
+
+// Like the real web build, publishes its WASM bindings on `window`
+vi.mock("@zama-fhe/relayer-sdk/web", () => {
+  (window as any).TFHE = {};
+  return webBuild;
+});
+
+import { loadRelayerSDK } from "../src/internal/RelayerSDKLoader";
+import type { WorkerRequest, WorkerResponse } from "../src/worker/protocol";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/** Worker scope whose posted messages are collected */
+function createScope() {
+  const target = new EventTarget();
+  const posted: WorkerResponse[] = [];
+  return {
+    posted,
+    scope: {
+      postMessage: (message: WorkerResponse) => posted.push(message),
+      addEventListener: (type: string, listener: EventListener) => target.addEventListener(type, listener),
+    },
+    send: (data: WorkerRequest) => target.dispatchEvent(new MessageEvent("message", { data })),
+  };
+}
+
+describe("encryption worker without window", () => {
+  it("loads the web build of the relayer SDK", async () => {
+    expect(typeof window).toBe("undefined");
+    const { scope, posted, send } = createScope();
+    vi.stubGlobal("self", scope);
+
+    await import("../src/worker");
+    send({ type: "init", config: { rpcUrl: "http://rpc", chainId: 11155111 } });
+    send({
+      type: "encrypt",
+      id: 1,
+      contractAddress: "0x1111111111111111111111111111111111111111",
+      userAddress: "0x2222222222222222222222222222222222222222",
+      ops: [{ type: "uint32", value: 7 }],
+    });
+
+    await vi.waitFor(() => expect(posted).toHaveLength(1));
+    expect(posted[0]).toMatchObject({ type: "encrypt:error", id: 1, error: { message: "no WASM in this test" } });
+    expect(webBuild.initSDK).toHaveBeenCalled();
+  });
+
+  it("checks the integrity of a CDN build fetched in a worker", async () => {
+    vi.stubGlobal("importScripts", vi.fn());
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("globalThis.relayerSDK = {};")));
+
+    const error = await loadRelayerSDK({ type: "cdn", integrity: "sha384-AAAA" }).catch((e) => e);
+
+    expect(error.code).toBe("LOAD_FAILED");
+    expect(error.message).toContain("integrity");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+
+const instance = {
+  createEncryptedInput: vi.fn((contractAddress: string, userAddress: string) => {
+    const values: unknown[] = [];
+    return {
+      add32: (v: number) => values.push(v),
+      add64: (v: bigint) => values.push(v),
+      encrypt: async () => {
+        if (values.includes(13)) {
+          throw new Error("relayer down", { cause: { code: "RELAYER_FETCH_ERROR", status: 503 } });
+        }
+        return {
+          handles: values.map(() => new Uint8Array(32)),
+          inputProof: new TextEncoder().encode(`${contractAddress}:${userAddress}:${values.join(",")}`),
+        };
+      },
+    };
+  }),
+  getPublicKey: () => null,
+};
+
+vi.mock("../src/internal/fhevm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/internal/fhevm")>();
+  return {
+    ...actual,
+    createFhevmInstance: vi.fn(async ({ provider }) => {
+      if (typeof provider !== "string") {
+        await provider.request({ method: "eth_chainId" });
+      }
+      return instance;
+    }),
+  };
+});
+
+import { EncryptionWorkerPool } from "../src/core/workerPool";
+import { startEncryptionWorker } from "../src/worker/encryptionWorker";
+import { getRelayerErrorCause } from "../src/core/retry";
+import type { FhevmInstance } from "../src/fhevmTypes";
+
+/** Worker and worker scope connected in-process */
+function createInProcessWorker() {
+  const toWorker = new EventTarget();
+  const toMain = new EventTarget();
+  const send = (target: EventTarget, data: unknown) =>
+    queueMicrotask(() => target.dispatchEvent(new MessageEvent("message", { data })));
+
+  startEncryptionWorker({
+    postMessage: (data) => send(toMain, data),
+    addEventListener: (type, listener) => toWorker.addEventListener(type, listener as any),
+  });
+
+  return {
+    postMessage: (data: unknown) => send(toWorker, data),
+    addEventListener: (type: string, listener: any) => toMain.addEventListener(type, listener),
+    terminate: vi.fn(),
+    crash: () => toMain.dispatchEvent(new ErrorEvent("error", { message: "out of memory" })),
+  } as unknown as Worker & { crash(): void };
+}
+
+const contract = "0x1111111111111111111111111111111111111111";
+const user = "0x2222222222222222222222222222222222222222";
+
+describe("EncryptionWorkerPool", () => {
+  it("replays builder operations in a worker", async () => {
+    const provider = { request: vi.fn(async () => "0xaa36a7") };
+    const pool = new EncryptionWorkerPool(
+      { createWorker: createInProcessWorker, size: 2 },
+      { rpcUrl: null },
+      provider
+    );
+    const wrapped = pool.wrapInstance(instance as unknown as FhevmInstance);
+
+    const input = wrapped.createEncryptedInput(contract, user);
+    input.add32(7).add64(9n);
+    const { handles, inputProof } = await input.encrypt();
+
+    expect(input.getBits()).toEqual([32, 64]);
+    expect(handles).toHaveLength(2);
+    expect(new TextDecoder().decode(inputProof)).toBe(`${contract}:${user}:7,9`);
+    // The worker's instance queried the chain through the main thread
+    expect(provider.request).toHaveBeenCalledWith({ method: "eth_chainId", params: undefined });
+    // Other instance methods run on the instance itself
+    expect(wrapped.getPublicKey()).toBe(null);
+  });
+
+  it("keeps the relayer error cause across the worker boundary", async () => {
+    const pool = new EncryptionWorkerPool({ createWorker: createInProcessWorker }, { rpcUrl: "http://rpc" });
+    const input = pool.wrapInstance(instance as unknown as FhevmInstance).createEncryptedInput(contract, user);
+    input.add32(13);
+
+    const error = await input.encrypt().catch((e) => e);
+    expect(error.message).toBe("relayer down");
+    expect(getRelayerErrorCause(error)).toMatchObject({ status: 503 });
+  });
+
+  it("rejects pending requests on terminate", async () => {
+    const pool = new EncryptionWorkerPool({ createWorker: createInProcessWorker }, { rpcUrl: "http://rpc" });
+    const pending = pool.encrypt(contract, user, [{ type: "uint32", value: 1 }]);
+
+    pool.terminate();
+
+    await expect(pending).rejects.toThrow("terminated");
+  });
+
+  it("replaces a crashed worker", async () => {
+    const workers: ReturnType<typeof createInProcessWorker>[] = [];
+    const pool = new EncryptionWorkerPool(
+      { createWorker: () => workers[workers.push(createInProcessWorker()) - 1] },
+      { rpcUrl: "http://rpc" }
+    );
+    const pending = pool.encrypt(contract, user, [{ type: "uint32", value: 1 }]);
+
+    workers[0].crash();
+
+    await expect(pending).rejects.toThrow("out of memory");
+    expect(workers[0].terminate).toHaveBeenCalled();
+    await expect(pool.encrypt(contract, user, [{ type: "uint32", value: 2 }])).resolves.toMatchObject({
+      handles: [expect.any(Uint8Array)],
+    });
+    expect(workers).toHaveLength(2);
+  });
+});